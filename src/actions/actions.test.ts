@@ -0,0 +1,412 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { useBackend } from "../typing.js";
+import { createRecordingBackend, type RecordingBackend } from "../backends/recording.js";
+import type { ClipEntry } from "../utils.js";
+
+// The SDK needs a live Stream Deck connection, so the actions get a stand-in that only provides
+// what they touch: the decorator, the base class, the logger and the inspector channel.
+const inspector = vi.hoisted(() => ({ sendToPropertyInspector: vi.fn() }));
+vi.mock("@elgato/streamdeck", () => {
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    return {
+        action: () => (target: unknown) => target,
+        SingletonAction: class {},
+        streamDeck: { logger, ui: inspector },
+    };
+});
+
+// Every picker host is a window; the tests choose on the user's behalf instead.
+const picker = vi.hoisted(() => ({ choose: vi.fn<(items: { id: string }[]) => string | null>() }));
+vi.mock("../picker.js", () => ({
+    findHosts: async () => ["test-host"],
+    showPicker: async (items: { id: string }[]) => picker.choose(items),
+}));
+
+import { ClipboardSlot } from "./clipboard-slot.js";
+import { ClipboardUtils } from "./clipboard-utils.js";
+import { ClipboardManager } from "./clipboard-manager.js";
+
+/** A Stream Deck key: persisted settings plus a record of what was shown on it. */
+type FakeKey<S> = {
+    id: string;
+    settings: S;
+    titles: string[];
+    feedback: ("ok" | "alert")[];
+};
+
+function fakeKey<S extends object>(settings: S): FakeKey<S> {
+    return { id: `key-${Math.random()}`, settings, titles: [], feedback: [] };
+}
+
+/** The event every handler receives, with an action bound to `key`. */
+function eventFor<S>(key: FakeKey<S>): never {
+    const action = {
+        id: key.id,
+        getSettings: async () => key.settings,
+        setSettings: async (next: S) => { key.settings = next; },
+        setTitle: async (title: string) => { key.titles.push(title); },
+        setImage: async () => {},
+        setState: async () => {},
+        showOk: async () => { key.feedback.push("ok"); },
+        showAlert: async () => { key.feedback.push("alert"); },
+    };
+    return { action, payload: { settings: key.settings } } as never;
+}
+
+type Pressable = {
+    onKeyDown(ev: never): Promise<void>;
+    onKeyUp(ev: never): Promise<void>;
+};
+
+async function press(target: Pressable, key: FakeKey<object>): Promise<void> {
+    await target.onKeyDown(eventFor(key));
+    const released = target.onKeyUp(eventFor(key));
+    // Lets a borrowed-clipboard paste reach its restore.
+    await vi.runAllTimersAsync();
+    await released;
+}
+
+async function hold(target: Pressable, key: FakeKey<object>): Promise<void> {
+    await target.onKeyDown(eventFor(key));
+    await vi.advanceTimersByTimeAsync(1000);
+    const released = target.onKeyUp(eventFor(key));
+    await vi.runAllTimersAsync();
+    await released;
+}
+
+let backend: RecordingBackend;
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    backend = createRecordingBackend();
+    useBackend(backend);
+    picker.choose.mockReset();
+    inspector.sendToPropertyInspector.mockReset();
+});
+
+afterEach(() => vi.useRealTimers());
+
+describe("ClipboardSlot", () => {
+    it("captures the clipboard into an empty slot without pasting anything", async () => {
+        backend.clipboard = "captured text";
+        const key = fakeKey({ pasteMode: "auto" });
+        await press(new ClipboardSlot(), key);
+        expect(key.settings).toMatchObject({ value: "captured text", label: "capture\nd text" });
+        expect(backend.delivered()).toEqual([]);
+        expect(key.feedback).toEqual(["ok"]);
+    });
+
+    it("refuses to capture an empty clipboard", async () => {
+        const key = fakeKey({ pasteMode: "auto" });
+        await press(new ClipboardSlot(), key);
+        expect(key.settings).not.toHaveProperty("value");
+        expect(key.feedback).toEqual(["alert"]);
+    });
+
+    it("types a stored single-line value", async () => {
+        const key = fakeKey({ value: "stored", label: "stored", pasteMode: "auto" });
+        await press(new ClipboardSlot(), key);
+        expect(backend.events).toEqual([{ kind: "type", text: "stored" }]);
+    });
+
+    it("pastes a stored multi-line value and restores the borrowed clipboard", async () => {
+        backend.clipboard = "user's clipboard";
+        const key = fakeKey({ value: "one\ntwo", label: "one two", pasteMode: "auto" });
+        await press(new ClipboardSlot(), key);
+        expect(backend.delivered()).toEqual(["one\ntwo"]);
+        expect(backend.clipboard).toBe("user's clipboard");
+    });
+
+    it("clears on hold, prompting before the release", async () => {
+        const key = fakeKey({ value: "stored", label: "stored", pasteMode: "auto" });
+        await hold(new ClipboardSlot(), key);
+        expect(key.titles).toContain("Release\nto Clear");
+        expect(key.settings).toMatchObject({ value: undefined, label: undefined });
+        expect(backend.delivered()).toEqual([]);
+    });
+
+    it("pastes instead of clearing on hold when clearing is suppressed", async () => {
+        const key = fakeKey({ value: "stored", label: "stored", suppressClear: true, pasteMode: "auto" });
+        await hold(new ClipboardSlot(), key);
+        expect(key.settings).toMatchObject({ value: "stored" });
+        expect(backend.delivered()).toEqual(["stored"]);
+    });
+});
+
+describe("ClipboardUtils", () => {
+    it("transforms the clipboard and types the result", async () => {
+        backend.clipboard = "hello world";
+        const key = fakeKey({ transform: "upper", pasteMode: "auto" });
+        await press(new ClipboardUtils(), key);
+        expect(backend.delivered()).toEqual(["HELLO WORLD"]);
+        expect(key.feedback).toEqual(["ok"]);
+    });
+
+    it("alerts on an empty clipboard rather than typing nothing", async () => {
+        const key = fakeKey({ transform: "upper", pasteMode: "auto" });
+        await press(new ClipboardUtils(), key);
+        expect(backend.delivered()).toEqual([]);
+        expect(key.feedback).toEqual(["alert"]);
+    });
+
+    it("runs a generator with an empty clipboard", async () => {
+        const key = fakeKey({ transform: "uuid", pasteMode: "auto" });
+        await press(new ClipboardUtils(), key);
+        expect(backend.delivered()).toHaveLength(1);
+        expect(backend.delivered()[0]).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it("alerts when no transform has been chosen", async () => {
+        backend.clipboard = "hello";
+        const key = fakeKey({ pasteMode: "auto" });
+        await press(new ClipboardUtils(), key);
+        expect(key.feedback).toEqual(["alert"]);
+    });
+
+    it("reconfigures on hold without touching the clipboard", async () => {
+        backend.clipboard = "hello";
+        picker.choose.mockReturnValue("snakecase");
+        const key = fakeKey({ transform: "upper", pasteMode: "auto" });
+        await hold(new ClipboardUtils(), key);
+        expect(key.settings).toMatchObject({ transform: "snakecase" });
+        expect(backend.events).toEqual([]);
+    });
+
+    it("runs every step of a pipeline", async () => {
+        backend.clipboard = "  Hello World  ";
+        const key = fakeKey({ transform: "trim", pipeline: ["trim", "lower", "dashcase"], pasteMode: "auto" });
+        await press(new ClipboardUtils(), key);
+        expect(backend.delivered()).toEqual(["hello-world"]);
+    });
+
+    it("shows which step failed and outputs nothing", async () => {
+        backend.clipboard = "%E0%A4%A";
+        const key = fakeKey({ transform: "trim", pipeline: ["trim", "urldecode"], pasteMode: "auto" });
+        await press(new ClipboardUtils(), key);
+        expect(backend.delivered()).toEqual([]);
+        expect(key.feedback).toEqual(["alert"]);
+        expect(key.titles).toContain("Step 2\nfailed");
+        // The usual title comes back once the failure has been on screen for a moment.
+        expect(key.titles.at(-1)).toBe("Trim\n+1 more");
+    });
+
+    it("shows where invalid JSON breaks, then restores the title", async () => {
+        backend.clipboard = '{"a": }';
+        const key = fakeKey({ transform: "jsonpretty", pasteMode: "auto" });
+        await press(new ClipboardUtils(), key);
+        expect(backend.delivered()).toEqual([]);
+        expect(key.feedback).toEqual(["alert"]);
+        expect(key.titles).toContain("Line 1\nCol 7");
+        expect(key.titles.at(-1)).toBe("JSON Fmt");
+    });
+
+    it("reports valid JSON without outputting it", async () => {
+        backend.clipboard = '{"a": 1}';
+        const key = fakeKey({ transform: "jsonvalidate", pasteMode: "auto" });
+        await press(new ClipboardUtils(), key);
+        expect(backend.events).toEqual([]);
+        expect(key.feedback).toEqual(["ok"]);
+        expect(key.titles).toContain("Valid\nJSON");
+    });
+
+    it("shows how many characters a cleanup changed, then restores the title", async () => {
+        backend.clipboard = "ls\u00a0-l\u200b";
+        const key = fakeKey({ transform: "stripinvisible", pasteMode: "auto" });
+        await press(new ClipboardUtils(), key);
+        expect(backend.delivered()).toEqual(["ls -l"]);
+        expect(key.titles).toContain("2\nChanged");
+        expect(key.titles.at(-1)).toBe("Unhide");
+    });
+
+    it("reports text with nothing invisible in it without outputting it", async () => {
+        backend.clipboard = "plain text";
+        const key = fakeKey({ transform: "findinvisible", pasteMode: "auto" });
+        await press(new ClipboardUtils(), key);
+        expect(backend.events).toEqual([]);
+        expect(key.feedback).toEqual(["ok"]);
+        expect(key.titles).toContain("None\nFound");
+    });
+
+    it("reports invisible characters on the key even where no dialog can be shown", async () => {
+        backend.clipboard = "ls\u00a0-l";
+        const key = fakeKey({ transform: "findinvisible", pasteMode: "auto" });
+        await press(new ClipboardUtils(), key);
+        expect(backend.events).toEqual([]);
+        expect(key.feedback).toEqual(["ok"]);
+        expect(key.titles).toContain("1\nFound");
+    });
+
+    it("pastes a converted table in automatic mode, since it spans lines", async () => {
+        backend.clipboard = "a\tb\n1\t2";
+        const key = fakeKey({ transform: "csvtomarkdown", pasteMode: "auto" });
+        await press(new ClipboardUtils(), key);
+        expect(backend.events.map(e => e.kind)).toEqual(["write", "paste", "write"]);
+        expect(backend.delivered()).toEqual(["|   a |   b |\n| --: | --: |\n|   1 |   2 |"]);
+    });
+
+    it("pastes dedented code in automatic mode, so the editor cannot re-indent it", async () => {
+        backend.clipboard = "        if (ok) {\n            run();\n        }";
+        const key = fakeKey({ transform: "dedent", pasteMode: "auto" });
+        await press(new ClipboardUtils(), key);
+        expect(backend.events.map(e => e.kind)).toEqual(["write", "paste", "write"]);
+        expect(backend.delivered()).toEqual(["if (ok) {\n    run();\n}"]);
+    });
+
+    it("formats JSON with the key's indent", async () => {
+        backend.clipboard = '{"a":1}';
+        const key = fakeKey({ transform: "jsonpretty", jsonIndent: "4", pasteMode: "auto" });
+        await press(new ClipboardUtils(), key);
+        expect(backend.delivered()).toEqual(['{\n    "a": 1\n}']);
+    });
+
+    it("replaces with the key's pattern", async () => {
+        backend.clipboard = "2024-03-09";
+        const key = fakeKey({
+            transform: "regexreplace", regexPattern: "(\\d+)-(\\d+)-(\\d+)", regexReplacement: "$3.$2.$1",
+            pasteMode: "auto",
+        });
+        await press(new ClipboardUtils(), key);
+        expect(backend.delivered()).toEqual(["09.03.2024"]);
+    });
+
+    it("tests a pattern from the inspector against the clipboard without outputting", async () => {
+        backend.clipboard = "a1b22";
+        const key = fakeKey({ transform: "regexreplace", pasteMode: "auto" });
+        const message = (payload: object) => ({ ...(eventFor(key) as object), payload }) as never;
+        const utils = new ClipboardUtils();
+
+        await utils.onSendToPlugin(message({ event: "testRegex", pattern: "\\d+", replacement: "#", flags: "g" }));
+        expect(inspector.sendToPropertyInspector).toHaveBeenLastCalledWith(
+            { event: "regexResult", ok: true, matches: 2, preview: "a#b#" });
+
+        await utils.onSendToPlugin(message({ event: "testRegex", pattern: "(", replacement: "", flags: "g" }));
+        expect(inspector.sendToPropertyInspector).toHaveBeenLastCalledWith(
+            expect.objectContaining({ ok: false, reason: expect.stringMatching(/^Invalid pattern/) }));
+        expect(backend.events).toEqual([]);
+        expect(key.settings).toEqual({ transform: "regexreplace", pasteMode: "auto" });
+
+        backend.readClipboard = async () => {
+            throw new Error("no clipboard tool found for X11; install xclip or xsel");
+        };
+        await utils.onSendToPlugin(message({ event: "testRegex", pattern: "\\d+", replacement: "#", flags: "g" }));
+        expect(inspector.sendToPropertyInspector).toHaveBeenLastCalledWith(
+            expect.objectContaining({ ok: false, reason: expect.stringMatching(/no clipboard tool found/) }));
+    });
+
+    it("shows that an HMAC key is set without showing the key", async () => {
+        picker.choose.mockReturnValue(null);
+        const key = fakeKey({ transform: "hmac", hmacKey: "s3cret", pasteMode: "auto" });
+        await hold(new ClipboardUtils(), key);
+        const items = picker.choose.mock.calls[0][0] as { id: string; preview?: string }[];
+        const row = items.find(i => i.id === "hmac");
+        expect(row?.preview).toBe("Key ••••••••••••");
+        expect(JSON.stringify(items)).not.toContain("s3cret");
+    });
+
+    it("types a password even in automatic mode, leaving the clipboard alone", async () => {
+        backend.clipboard = "user's clipboard";
+        const key = fakeKey({ transform: "password", pasteMode: "auto" });
+        await press(new ClipboardUtils(), key);
+        expect(backend.events).toEqual([{ kind: "type", text: expect.stringMatching(/^\S{20}$/) }]);
+        expect(backend.clipboard).toBe("user's clipboard");
+        expect(key.titles).toEqual([]);
+    });
+
+    it("types a password later in a chain, even where automatic mode would paste", async () => {
+        backend.clipboard = "user's clipboard";
+        // The tab in front would send automatic mode to the clipboard for any other text.
+        const key = fakeKey({ transform: "trim", pipeline: ["trim", "password", "indent"], indentBy: "tab", pasteMode: "auto" });
+        await press(new ClipboardUtils(), key);
+        expect(backend.events).toEqual([{ kind: "type", text: expect.stringMatching(/^\t\S{20}$/) }]);
+        expect(backend.clipboard).toBe("user's clipboard");
+    });
+
+    it("pastes a password only when the key asks for the clipboard", async () => {
+        const key = fakeKey({ transform: "passphrase", pasteMode: "clipboard" });
+        await press(new ClipboardUtils(), key);
+        expect(backend.events.map(e => e.kind)).toEqual(["write", "paste"]);
+    });
+
+    it("describes a password policy's strength, not a sample", async () => {
+        picker.choose.mockReturnValue(null);
+        const key = fakeKey({ transform: "password", passwordLength: "16", passwordSymbols: "off", pasteMode: "auto" });
+        await hold(new ClipboardUtils(), key);
+        const items = picker.choose.mock.calls[0][0] as { id: string; preview?: string }[];
+        // 16 draws from 56 letters and digits once look-alikes are gone.
+        expect(items.find(i => i.id === "password")?.preview).toBe("16 characters, about 92 bits");
+        expect(items.find(i => i.id === "passphrase")?.preview).toBe("6 words, about 62 bits");
+    });
+
+    it("builds a pipeline in the editor, one step per window", async () => {
+        picker.choose
+            .mockReturnValueOnce("build-pipeline")
+            .mockReturnValueOnce("add:trim")
+            .mockReturnValueOnce("add:lower")
+            .mockReturnValueOnce("save-pipeline");
+        const key = fakeKey({ transform: "upper", pasteMode: "auto" });
+        await hold(new ClipboardUtils(), key);
+        // The current transform seeds the chain.
+        expect(key.settings).toMatchObject({ transform: "upper", pipeline: ["upper", "trim", "lower"] });
+        expect(key.titles.at(-1)).toBe("To Upper\n+2 more");
+    });
+
+    it("replaces a pipeline with a single transform chosen from the list", async () => {
+        picker.choose.mockReturnValue("lower");
+        const key = fakeKey({ transform: "trim", pipeline: ["trim", "upper"], pasteMode: "auto" });
+        await hold(new ClipboardUtils(), key);
+        expect(key.settings).toEqual({ transform: "lower", pasteMode: "auto" });
+    });
+
+    it("keeps the transform when the picker is cancelled", async () => {
+        picker.choose.mockReturnValue(null);
+        const key = fakeKey({ transform: "upper", pasteMode: "auto" });
+        await hold(new ClipboardUtils(), key);
+        expect(key.settings).toMatchObject({ transform: "upper" });
+    });
+});
+
+describe("ClipboardManager", () => {
+    const clip = (id: string, value: string): ClipEntry => ({ id, value, addedAt: 1 });
+
+    it("captures the clipboard on hold without opening the picker", async () => {
+        backend.clipboard = "a snippet";
+        const key = fakeKey<{ clips?: ClipEntry[]; pasteMode: string }>({ pasteMode: "auto" });
+        await hold(new ClipboardManager(), key);
+        expect(key.settings.clips?.map(c => c.value)).toEqual(["a snippet"]);
+        expect(key.titles).toContain("Release\nto Add");
+        expect(picker.choose).not.toHaveBeenCalled();
+        expect(backend.delivered()).toEqual([]);
+    });
+
+    it("masks a captured credential", async () => {
+        backend.clipboard = "ghp_" + "a1B2c3D4e5".repeat(4);
+        const key = fakeKey<{ clips?: ClipEntry[]; pasteMode: string }>({ pasteMode: "auto" });
+        await hold(new ClipboardManager(), key);
+        expect(key.settings.clips?.[0]).toMatchObject({ hidden: true, title: "GitHub token" });
+    });
+
+    it("refuses to capture an empty clipboard", async () => {
+        const key = fakeKey<{ clips?: ClipEntry[]; pasteMode: string }>({ pasteMode: "auto" });
+        await hold(new ClipboardManager(), key);
+        expect(key.settings.clips ?? []).toEqual([]);
+        expect(key.feedback).toEqual(["alert"]);
+    });
+
+    it("pastes the chosen clip and records its use without reordering", async () => {
+        backend.clipboard = "user's clipboard";
+        picker.choose.mockReturnValue("b");
+        const key = fakeKey({ pasteMode: "auto", clips: [clip("a", "first"), clip("b", "second\nline")] });
+        await press(new ClipboardManager(), key);
+        expect(backend.delivered()).toEqual(["second\nline"]);
+        expect(backend.clipboard).toBe("user's clipboard");
+        expect(key.settings.clips.map(c => c.id)).toEqual(["a", "b"]);
+        expect(key.settings.clips[1].lastUsedAt).toBeTypeOf("number");
+    });
+
+    it("pastes nothing when the picker is cancelled", async () => {
+        picker.choose.mockReturnValue(null);
+        const key = fakeKey({ pasteMode: "auto", clips: [clip("a", "first")] });
+        await press(new ClipboardManager(), key);
+        expect(backend.events).toEqual([]);
+    });
+});
@@ -93,7 +93,7 @@ type ManagerSettings = {
  * the same operation the picker's action row performs, for the common case where you have just
  * copied something and only want it filed.
  *
- * @platform macOS — pbpaste/pbcopy for clipboard access, osascript to type or paste.
+ * @platform macOS or Linux — clipboard access and keystrokes go through src/typing.ts.
  */
 @action({ UUID: "com.quickclips.streamdeck.clipboard-manager" })
 export class ClipboardManager extends SingletonAction<ManagerSettings> {
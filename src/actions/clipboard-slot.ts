@@ -27,7 +27,7 @@ const LONG_PRESS_THRESHOLD = 1000;
  * - Filled (unlocked): Filled clipboard icon with content preview
  * - Filled (locked): Locked icon when prevent clear is enabled
  * 
- * @platform macOS - pbpaste for capture; output goes through src/typing.ts
+ * @platform macOS or Linux - capture and output both go through src/typing.ts
  */
 @action({ UUID: "com.quickclips.streamdeck.clipboard-slot" })
 export class ClipboardSlot extends SingletonAction<SlotSettings> {
@@ -1,12 +1,20 @@
-import { action, KeyDownEvent, KeyUpEvent, SingletonAction, WillAppearEvent, WillDisappearEvent, DidReceiveSettingsEvent, streamDeck } from "@elgato/streamdeck";
+import { action, KeyDownEvent, KeyUpEvent, SingletonAction, WillAppearEvent, WillDisappearEvent, DidReceiveSettingsEvent, SendToPluginEvent, streamDeck } from "@elgato/streamdeck";
 import { exec } from "child_process";
 import { promisify } from "util";
 import { writeFile, unlink } from "fs/promises";
 import { tmpdir } from "os";
 import { join } from "path";
-import { applyTransform, isGenerator } from "../utils.js";
+import { applyPipelineCounted, isGenerator, isReport, isSecret, MASK, PipelineError, TransformError, type TransformOptions } from "../utils.js";
+import { findInvisible } from "../transforms/cleanup.js";
+import { regexReplace } from "../transforms/regex.js";
+import { DEFAULT_DATE_FORMAT } from "../transforms/dateformat.js";
+import { slugPolicy } from "../transforms/slug.js";
+import { indentUnit, wrapColumn } from "../transforms/lines.js";
+import { addSeparators, localeOption } from "../transforms/numbers.js";
+import { boolOption } from "../transforms/shared.js";
+import { passphraseBits, passphrasePolicy, passwordBits, passwordPolicy } from "../transforms/password.js";
 import { outputText, readClipboard, type PasteMode } from "../typing.js";
-import { findHosts, showPicker, type PickerItem } from "../picker.js";
+import { findHosts, showPicker, type PickerItem, type PickerOptions } from "../picker.js";
 
 const execAsync = promisify(exec);
 
@@ -15,6 +23,24 @@ import type { TransformType } from "../utils.js";
 
 const LONG_PRESS_THRESHOLD = 1000;
 
+/** How long a failure summary stays on the key before the usual title returns. */
+const FLASH_MS = 2000;
+
+/** Picker row in the transform list that opens the pipeline editor. Not a transform id. */
+const BUILD_PIPELINE = "build-pipeline";
+/** Pipeline editor row that accepts the chain as it stands. */
+const SAVE_PIPELINE = "save-pipeline";
+/** Prefix for editor rows that append a transform, e.g. `add:trim`. */
+const ADD_STEP = "add:";
+/** Prefix for editor rows that stand for a step already in the chain. */
+const STEP = "step:";
+
+/** How many invisible characters the report lists before summarising the rest. */
+const INVISIBLE_LISTED = 20;
+
+/** How much of a regex test result the property inspector shows. */
+const PREVIEW_CHARS = 500;
+
 const TRANSFORM_LABELS: Record<TransformType, string> = {
     upper: 'To Upper',
     lower: 'To Lower',
@@ -22,6 +48,12 @@ const TRANSFORM_LABELS: Record<TransformType, string> = {
     camelCase: 'To Camel',
     dashcase: 'To Dash',
     snakecase: 'To Snake',
+    pascalcase: 'To Pascal',
+    constantcase: 'To Const',
+    dotcase: 'To Dot',
+    pathcase: 'To Path',
+    sentencecase: 'Sentence',
+    slugify: 'Slug',
     trim: 'Trim',
     urlencode: 'URL Enc',
     urldecode: 'URL Dec',
@@ -33,9 +65,100 @@ const TRANSFORM_LABELS: Record<TransformType, string> = {
     datetimeiso: 'Date Time',
     unixtime: 'Unix (s)',
     unixtimems: 'Unix (ms)',
+    jsonpretty: 'JSON Fmt',
+    jsonminify: 'JSON Min',
+    jsonsortkeys: 'JSON Sort',
+    jsonvalidate: 'Validate',
+    jsontoyaml: 'JSON→YAML',
+    yamltojson: 'YAML→JSON',
+    csvtojson: 'CSV→JSON',
+    csvtomarkdown: 'CSV→MD',
+    jsontocsv: 'JSON→CSV',
+    mdcodeblock: 'Code Block',
+    mdquote: 'Quote',
+    mdbullets: 'Bullets',
+    mdnumbered: 'Numbered',
+    mdlink: 'MD Link',
+    mdtable: 'TSV→MD',
+    urltojson: 'URL→JSON',
+    jsontoquery: 'JSON→Query',
+    striptracking: 'Untrack',
+    removecredentials: 'No Creds',
+    extracturls: 'All URLs',
+    extractemails: 'All Emails',
+    extractips: 'All IPs',
+    extractuuids: 'All UUIDs',
+    extractnumbers: 'All Nums',
+    extractcolors: 'All Colours',
+    colortohex: 'To #Hex',
+    colortorgb: 'To RGB',
+    colortohsl: 'To HSL',
+    colortooklch: 'To OKLCH',
+    numtodec: 'To Dec',
+    numtohex: 'To 0x',
+    numtooct: 'To 0o',
+    numtobin: 'To 0b',
+    humanbytes: 'Size',
+    parsebytes: 'Bytes',
+    addseparators: '1,234',
+    stripseparators: '1234',
+    regexreplace: 'Regex',
+    md5: 'MD5',
+    sha1: 'SHA-1',
+    sha256: 'SHA-256',
+    sha512: 'SHA-512',
+    hmac: 'HMAC',
+    jwtdecode: 'JWT Dec',
+    hexencode: 'Hex Enc',
+    hexdecode: 'Hex Dec',
+    base32encode: 'B32 Enc',
+    base32decode: 'B32 Dec',
+    base64urlencode: 'B64U Enc',
+    base64urldecode: 'B64U Dec',
+    binaryencode: 'Bin Enc',
+    binarydecode: 'Bin Dec',
+    qpencode: 'QP Enc',
+    qpdecode: 'QP Dec',
+    jsonescape: 'JSON Esc',
+    jsonunescape: 'JSON Unesc',
+    shellescape: 'Sh Quote',
+    shellunescape: 'Sh Unquote',
+    sqlescape: 'SQL Esc',
+    sqlunescape: 'SQL Unesc',
+    regexescape: 'Rgx Esc',
+    regexunescape: 'Rgx Unesc',
+    htmlescape: 'HTML Esc',
+    htmlunescape: 'HTML Unesc',
+    findinvisible: 'Hidden?',
+    stripinvisible: 'Unhide',
+    nfc: 'NFC',
+    nfkc: 'NFKC',
+    straightenquotes: 'Quotes',
+    removediacritics: 'Accents',
+    sortlines: 'Sort',
+    uniquelines: 'Unique',
+    reverselines: 'Reverse',
+    shufflelines: 'Shuffle',
+    numberlines: 'Number',
+    dropblanklines: 'No Blanks',
+    dedent: 'Dedent',
+    indent: 'Indent',
+    hardwrap: 'Wrap',
+    unwrap: 'Unwrap',
+    tounix: 'To Unix',
+    tounixms: 'To Unix ms',
+    toiso: 'To ISO',
+    datecustom: 'Date Fmt',
+    uuidv7: 'UUID v7',
+    ulid: 'ULID',
+    nanoid: 'Nano ID',
+    randomstring: 'Random',
+    password: 'Password',
+    passphrase: 'Passphrase',
 };
 
-const TRANSFORM_ICONS: Record<TransformType, string> = {
+/** Artwork for transforms that have their own; the rest use the action's icon. */
+const TRANSFORM_ICONS: Partial<Record<TransformType, string>> = {
     upper: 'imgs/actions/utils/upper',
     lower: 'imgs/actions/utils/lower',
     titlecase: 'imgs/actions/utils/titlecase',
@@ -55,11 +178,38 @@ const TRANSFORM_ICONS: Record<TransformType, string> = {
     unixtimems: 'imgs/actions/utils/unixtimems',
 };
 
+function iconFor(transform: TransformType): string {
+    return TRANSFORM_ICONS[transform] ?? 'imgs/actions/utils/icon';
+}
+
 const TRANSFORM_GROUPS = [
-    { header: '— Case —',           items: ['To Upper', 'To Lower', 'To Title', 'To Camel', 'To Snake', 'To Dash'] },
-    { header: '— Encode / Decode —', items: ['B64 Encode', 'B64 Decode', 'URL Encode', 'URL Decode'] },
-    { header: '— Utility —',         items: ['Trim', 'Count'] },
-    { header: '— Generate —',        items: ['Date', 'Date & Time', 'Unix Time (s)', 'Unix Time (ms)', 'UUID'] },
+    { header: '— Case —',           items: ['To Upper', 'To Lower', 'To Title', 'To Sentence', 'To Camel', 'To Pascal', 'To Snake', 'To Constant', 'To Dash', 'To Dot', 'To Path', 'Slugify'] },
+    { header: '— Encode / Decode —', items: [
+        'B64 Encode', 'B64 Decode', 'B64URL Encode', 'B64URL Decode', 'URL Encode', 'URL Decode',
+        'Hex Encode', 'Hex Decode', 'Base32 Encode', 'Base32 Decode', 'Binary Encode', 'Binary Decode',
+        'QP Encode', 'QP Decode', 'JWT Decode',
+    ] },
+    { header: '— Escape —',          items: [
+        'Escape JSON String', 'Unescape JSON String', 'Quote for Shell', 'Unquote Shell Word',
+        'Escape SQL String', 'Unescape SQL String', 'Escape Regex', 'Unescape Regex',
+        'Escape HTML', 'Unescape HTML',
+    ] },
+    { header: '— Cleanup —',         items: [
+        'Find Invisible Characters', 'Strip Invisible Characters', 'Normalize (NFC)', 'Normalize (NFKC)',
+        'Straighten Quotes & Dashes', 'Remove Diacritics',
+    ] },
+    { header: '— Lines —',           items: ['Sort Lines', 'Remove Duplicate Lines', 'Reverse Lines', 'Shuffle Lines', 'Number Lines', 'Remove Blank Lines', 'Dedent', 'Indent', 'Hard-Wrap Lines', 'Unwrap Paragraphs'] },
+    { header: '— JSON —',            items: ['Pretty-Print JSON', 'Minify JSON', 'Sort JSON Keys', 'Validate JSON', 'JSON to YAML', 'YAML to JSON'] },
+    { header: '— Tables —',          items: ['CSV/TSV to JSON', 'CSV/TSV to Markdown Table', 'JSON to CSV'] },
+    { header: '— Markdown —',        items: ['Markdown Code Block', 'Markdown Quote', 'Markdown Bullet List', 'Markdown Numbered List', 'Markdown Link from URL', 'Markdown Table from TSV'] },
+    { header: '— URL —',             items: ['URL to JSON', 'JSON to Query String', 'Strip Tracking Parameters', 'Remove URL Credentials'] },
+    { header: '— Extract —',         items: ['Extract URLs', 'Extract Email Addresses', 'Extract IP Addresses', 'Extract UUIDs', 'Extract Numbers', 'Extract Hex Colours'] },
+    { header: '— Colour —',          items: ['Colour to Hex', 'Colour to rgb()', 'Colour to hsl()', 'Colour to oklch()'] },
+    { header: '— Numbers —',         items: ['To Decimal', 'To Hex (0x)', 'To Octal (0o)', 'To Binary (0b)', 'Bytes to Size', 'Size to Bytes', 'Add Thousands Separators', 'Remove Thousands Separators'] },
+    { header: '— Time —',            items: ['To Unix Time (s)', 'To Unix Time (ms)', 'To ISO 8601'] },
+    { header: '— Hash —',            items: ['MD5', 'SHA-1', 'SHA-256', 'SHA-512', 'HMAC Signature'] },
+    { header: '— Utility —',         items: ['Trim', 'Count', 'Find & Replace (Regex)'] },
+    { header: '— Generate —',        items: ['Date', 'Date & Time', 'Custom Date', 'Unix Time (s)', 'Unix Time (ms)', 'UUID', 'UUID v7', 'ULID', 'Nano ID', 'Random String', 'Password', 'Passphrase'] },
 ];
 
 const TRANSFORM_LIST = TRANSFORM_GROUPS.flatMap(g => [g.header, ...g.items.map(i => `  ${i}`)]);
@@ -71,6 +221,12 @@ const LABEL_TO_TRANSFORM: Record<string, TransformType> = {
     'To Camel': 'camelCase',
     'To Dash': 'dashcase',
     'To Snake': 'snakecase',
+    'To Sentence': 'sentencecase',
+    'To Pascal': 'pascalcase',
+    'To Constant': 'constantcase',
+    'To Dot': 'dotcase',
+    'To Path': 'pathcase',
+    'Slugify': 'slugify',
     'Trim': 'trim',
     'URL Encode': 'urlencode',
     'URL Decode': 'urldecode',
@@ -82,6 +238,96 @@ const LABEL_TO_TRANSFORM: Record<string, TransformType> = {
     'Date & Time': 'datetimeiso',
     'Unix Time (s)': 'unixtime',
     'Unix Time (ms)': 'unixtimems',
+    'Pretty-Print JSON': 'jsonpretty',
+    'Minify JSON': 'jsonminify',
+    'Sort JSON Keys': 'jsonsortkeys',
+    'Validate JSON': 'jsonvalidate',
+    'JSON to YAML': 'jsontoyaml',
+    'YAML to JSON': 'yamltojson',
+    'CSV/TSV to JSON': 'csvtojson',
+    'CSV/TSV to Markdown Table': 'csvtomarkdown',
+    'JSON to CSV': 'jsontocsv',
+    'Markdown Code Block': 'mdcodeblock',
+    'Markdown Quote': 'mdquote',
+    'Markdown Bullet List': 'mdbullets',
+    'Markdown Numbered List': 'mdnumbered',
+    'Markdown Link from URL': 'mdlink',
+    'Markdown Table from TSV': 'mdtable',
+    'URL to JSON': 'urltojson',
+    'JSON to Query String': 'jsontoquery',
+    'Strip Tracking Parameters': 'striptracking',
+    'Remove URL Credentials': 'removecredentials',
+    'Extract URLs': 'extracturls',
+    'Extract Email Addresses': 'extractemails',
+    'Extract IP Addresses': 'extractips',
+    'Extract UUIDs': 'extractuuids',
+    'Extract Numbers': 'extractnumbers',
+    'Extract Hex Colours': 'extractcolors',
+    'Colour to Hex': 'colortohex',
+    'Colour to rgb()': 'colortorgb',
+    'Colour to hsl()': 'colortohsl',
+    'Colour to oklch()': 'colortooklch',
+    'To Decimal': 'numtodec',
+    'To Hex (0x)': 'numtohex',
+    'To Octal (0o)': 'numtooct',
+    'To Binary (0b)': 'numtobin',
+    'Bytes to Size': 'humanbytes',
+    'Size to Bytes': 'parsebytes',
+    'Add Thousands Separators': 'addseparators',
+    'Remove Thousands Separators': 'stripseparators',
+    'Find & Replace (Regex)': 'regexreplace',
+    'MD5': 'md5',
+    'SHA-1': 'sha1',
+    'SHA-256': 'sha256',
+    'SHA-512': 'sha512',
+    'HMAC Signature': 'hmac',
+    'JWT Decode': 'jwtdecode',
+    'B64URL Encode': 'base64urlencode',
+    'B64URL Decode': 'base64urldecode',
+    'Hex Encode': 'hexencode',
+    'Hex Decode': 'hexdecode',
+    'Base32 Encode': 'base32encode',
+    'Base32 Decode': 'base32decode',
+    'Binary Encode': 'binaryencode',
+    'Binary Decode': 'binarydecode',
+    'QP Encode': 'qpencode',
+    'QP Decode': 'qpdecode',
+    'Escape JSON String': 'jsonescape',
+    'Unescape JSON String': 'jsonunescape',
+    'Quote for Shell': 'shellescape',
+    'Unquote Shell Word': 'shellunescape',
+    'Escape SQL String': 'sqlescape',
+    'Unescape SQL String': 'sqlunescape',
+    'Escape Regex': 'regexescape',
+    'Unescape Regex': 'regexunescape',
+    'Escape HTML': 'htmlescape',
+    'Unescape HTML': 'htmlunescape',
+    'Find Invisible Characters': 'findinvisible',
+    'Strip Invisible Characters': 'stripinvisible',
+    'Normalize (NFC)': 'nfc',
+    'Normalize (NFKC)': 'nfkc',
+    'Straighten Quotes & Dashes': 'straightenquotes',
+    'Remove Diacritics': 'removediacritics',
+    'Sort Lines': 'sortlines',
+    'Remove Duplicate Lines': 'uniquelines',
+    'Reverse Lines': 'reverselines',
+    'Shuffle Lines': 'shufflelines',
+    'Number Lines': 'numberlines',
+    'Remove Blank Lines': 'dropblanklines',
+    'Dedent': 'dedent',
+    'Indent': 'indent',
+    'Hard-Wrap Lines': 'hardwrap',
+    'Unwrap Paragraphs': 'unwrap',
+    'To Unix Time (s)': 'tounix',
+    'To Unix Time (ms)': 'tounixms',
+    'To ISO 8601': 'toiso',
+    'Custom Date': 'datecustom',
+    'UUID v7': 'uuidv7',
+    'ULID': 'ulid',
+    'Nano ID': 'nanoid',
+    'Random String': 'randomstring',
+    'Password': 'password',
+    'Passphrase': 'passphrase',
 };
 
 /**
@@ -90,10 +336,35 @@ const LABEL_TO_TRANSFORM: Record<string, TransformType> = {
  * references transforms by id, so no display-string round-trip is involved.
  */
 const PICKER_GROUPS: { group: string; items: TransformType[] }[] = [
-    { group: 'Case', items: ['upper', 'lower', 'titlecase', 'camelCase', 'snakecase', 'dashcase'] },
-    { group: 'Encode / Decode', items: ['base64encode', 'base64decode', 'urlencode', 'urldecode'] },
-    { group: 'Utility', items: ['trim', 'count'] },
-    { group: 'Generate', items: ['dateiso', 'datetimeiso', 'unixtime', 'unixtimems', 'uuid'] },
+    { group: 'Case', items: ['upper', 'lower', 'titlecase', 'sentencecase', 'camelCase', 'pascalcase', 'snakecase', 'constantcase', 'dashcase', 'dotcase', 'pathcase', 'slugify'] },
+    {
+        group: 'Encode / Decode',
+        items: [
+            'base64encode', 'base64decode', 'base64urlencode', 'base64urldecode', 'urlencode', 'urldecode',
+            'hexencode', 'hexdecode', 'base32encode', 'base32decode', 'binaryencode', 'binarydecode',
+            'qpencode', 'qpdecode', 'jwtdecode',
+        ],
+    },
+    {
+        group: 'Escape',
+        items: [
+            'jsonescape', 'jsonunescape', 'shellescape', 'shellunescape', 'sqlescape', 'sqlunescape',
+            'regexescape', 'regexunescape', 'htmlescape', 'htmlunescape',
+        ],
+    },
+    { group: 'Cleanup', items: ['findinvisible', 'stripinvisible', 'nfc', 'nfkc', 'straightenquotes', 'removediacritics'] },
+    { group: 'Lines', items: ['sortlines', 'uniquelines', 'reverselines', 'shufflelines', 'numberlines', 'dropblanklines', 'dedent', 'indent', 'hardwrap', 'unwrap'] },
+    { group: 'JSON', items: ['jsonpretty', 'jsonminify', 'jsonsortkeys', 'jsonvalidate', 'jsontoyaml', 'yamltojson'] },
+    { group: 'Tables', items: ['csvtojson', 'csvtomarkdown', 'jsontocsv'] },
+    { group: 'Markdown', items: ['mdcodeblock', 'mdquote', 'mdbullets', 'mdnumbered', 'mdlink', 'mdtable'] },
+    { group: 'URL', items: ['urltojson', 'jsontoquery', 'striptracking', 'removecredentials'] },
+    { group: 'Extract', items: ['extracturls', 'extractemails', 'extractips', 'extractuuids', 'extractnumbers', 'extractcolors'] },
+    { group: 'Colour', items: ['colortohex', 'colortorgb', 'colortohsl', 'colortooklch'] },
+    { group: 'Numbers', items: ['numtodec', 'numtohex', 'numtooct', 'numtobin', 'humanbytes', 'parsebytes', 'addseparators', 'stripseparators'] },
+    { group: 'Time', items: ['tounix', 'tounixms', 'toiso'] },
+    { group: 'Hash', items: ['md5', 'sha1', 'sha256', 'sha512', 'hmac'] },
+    { group: 'Utility', items: ['trim', 'count', 'regexreplace'] },
+    { group: 'Generate', items: ['dateiso', 'datetimeiso', 'datecustom', 'unixtime', 'unixtimems', 'uuid', 'uuidv7', 'ulid', 'nanoid', 'randomstring', 'password', 'passphrase'] },
 ];
 
 /**
@@ -110,6 +381,12 @@ const TRANSFORM_FULL_NAMES: Record<TransformType, string> = {
     camelCase: 'toCamelCase',
     dashcase: 'to-dash-case',
     snakecase: 'to_snake_case',
+    pascalcase: 'ToPascalCase',
+    constantcase: 'TO_CONSTANT_CASE',
+    dotcase: 'to.dot.case',
+    pathcase: 'to/path/case',
+    sentencecase: 'To sentence case',
+    slugify: 'slugify-to-url',
     trim: 'Trim Whitespace',
     urlencode: 'URL Encode',
     urldecode: 'URL Decode',
@@ -121,6 +398,96 @@ const TRANSFORM_FULL_NAMES: Record<TransformType, string> = {
     datetimeiso: 'Date & Time',
     unixtime: 'Unix Time (s)',
     unixtimems: 'Unix Time (ms)',
+    jsonpretty: 'Pretty-Print JSON',
+    jsonminify: 'Minify JSON',
+    jsonsortkeys: 'Sort JSON Keys',
+    jsonvalidate: 'Validate JSON',
+    jsontoyaml: 'JSON to YAML',
+    yamltojson: 'YAML to JSON',
+    csvtojson: 'CSV/TSV to JSON',
+    csvtomarkdown: 'CSV/TSV to Markdown Table',
+    jsontocsv: 'JSON to CSV',
+    mdcodeblock: 'Markdown Code Block',
+    mdquote: 'Markdown Quote',
+    mdbullets: 'Markdown Bullet List',
+    mdnumbered: 'Markdown Numbered List',
+    mdlink: 'Markdown Link from URL',
+    mdtable: 'Markdown Table from TSV',
+    urltojson: 'URL to JSON',
+    jsontoquery: 'JSON to Query String',
+    striptracking: 'Strip Tracking Parameters',
+    removecredentials: 'Remove URL Credentials',
+    extracturls: 'Extract URLs',
+    extractemails: 'Extract Email Addresses',
+    extractips: 'Extract IP Addresses',
+    extractuuids: 'Extract UUIDs',
+    extractnumbers: 'Extract Numbers',
+    extractcolors: 'Extract Hex Colours',
+    colortohex: 'Colour to Hex',
+    colortorgb: 'Colour to rgb()',
+    colortohsl: 'Colour to hsl()',
+    colortooklch: 'Colour to oklch()',
+    numtodec: 'To Decimal',
+    numtohex: 'To Hex (0x)',
+    numtooct: 'To Octal (0o)',
+    numtobin: 'To Binary (0b)',
+    humanbytes: 'Bytes to Size',
+    parsebytes: 'Size to Bytes',
+    addseparators: 'Add Thousands Separators',
+    stripseparators: 'Remove Thousands Separators',
+    regexreplace: 'Find & Replace (Regex)',
+    md5: 'MD5',
+    sha1: 'SHA-1',
+    sha256: 'SHA-256',
+    sha512: 'SHA-512',
+    hmac: 'HMAC Signature',
+    jwtdecode: 'JWT Decode',
+    hexencode: 'Hex Encode',
+    hexdecode: 'Hex Decode',
+    base32encode: 'Base32 Encode',
+    base32decode: 'Base32 Decode',
+    base64urlencode: 'Base64url Encode',
+    base64urldecode: 'Base64url Decode',
+    binaryencode: 'Binary Encode',
+    binarydecode: 'Binary Decode',
+    qpencode: 'Quoted-Printable Encode',
+    qpdecode: 'Quoted-Printable Decode',
+    jsonescape: 'Escape JSON String',
+    jsonunescape: 'Unescape JSON String',
+    shellescape: 'Quote for Shell',
+    shellunescape: 'Unquote Shell Word',
+    sqlescape: 'Escape SQL String',
+    sqlunescape: 'Unescape SQL String',
+    regexescape: 'Escape Regex',
+    regexunescape: 'Unescape Regex',
+    htmlescape: 'Escape HTML',
+    htmlunescape: 'Unescape HTML',
+    findinvisible: 'Find Invisible Characters',
+    stripinvisible: 'Strip Invisible Characters',
+    nfc: 'Normalize (NFC)',
+    nfkc: 'Normalize (NFKC)',
+    straightenquotes: 'Straighten Quotes & Dashes',
+    removediacritics: 'Remove Diacritics',
+    sortlines: 'Sort Lines',
+    uniquelines: 'Remove Duplicate Lines',
+    reverselines: 'Reverse Lines',
+    shufflelines: 'Shuffle Lines',
+    numberlines: 'Number Lines',
+    dropblanklines: 'Remove Blank Lines',
+    dedent: 'Dedent',
+    indent: 'Indent',
+    hardwrap: 'Hard-Wrap Lines',
+    unwrap: 'Unwrap Paragraphs',
+    tounix: 'To Unix Time (s)',
+    tounixms: 'To Unix Time (ms)',
+    toiso: 'To ISO 8601',
+    datecustom: 'Custom Date',
+    uuidv7: 'UUID v7 (time-ordered)',
+    ulid: 'ULID',
+    nanoid: 'Nano ID',
+    randomstring: 'Random String',
+    password: 'Password',
+    passphrase: 'Passphrase',
 };
 
 /**
@@ -134,10 +501,27 @@ const TRANSFORM_ACCENTS: Record<TransformType, string> = {
     camelCase: '#ffd966',
     dashcase: '#ffd966',
     snakecase: '#ffd966',
+    pascalcase: '#ffd966',
+    constantcase: '#ffd966',
+    dotcase: '#ffd966',
+    pathcase: '#ffd966',
+    sentencecase: '#ffd966',
+    slugify: '#ffd966',
     base64encode: '#93c47d',
     base64decode: '#93c47d',
     urlencode: '#ad7dc4',
     urldecode: '#ad7dc4',
+    jwtdecode: '#93c47d',
+    base64urlencode: '#93c47d',
+    base64urldecode: '#93c47d',
+    hexencode: '#93c47d',
+    hexdecode: '#93c47d',
+    base32encode: '#93c47d',
+    base32decode: '#93c47d',
+    binaryencode: '#93c47d',
+    binarydecode: '#93c47d',
+    qpencode: '#93c47d',
+    qpdecode: '#93c47d',
     trim: '#cc0000',
     count: '#e69138',
     // Generators share one accent, the same way the case and encoding families do
@@ -146,25 +530,243 @@ const TRANSFORM_ACCENTS: Record<TransformType, string> = {
     datetimeiso: '#6d9eeb',
     unixtime: '#6d9eeb',
     unixtimems: '#6d9eeb',
+    datecustom: '#6d9eeb',
+    uuidv7: '#6d9eeb',
+    ulid: '#6d9eeb',
+    nanoid: '#6d9eeb',
+    randomstring: '#6d9eeb',
+    password: '#6d9eeb',
+    passphrase: '#6d9eeb',
+    jsonescape: '#f6b26b',
+    jsonunescape: '#f6b26b',
+    shellescape: '#f6b26b',
+    shellunescape: '#f6b26b',
+    sqlescape: '#f6b26b',
+    sqlunescape: '#f6b26b',
+    regexescape: '#f6b26b',
+    regexunescape: '#f6b26b',
+    htmlescape: '#f6b26b',
+    htmlunescape: '#f6b26b',
+    findinvisible: '#76a5af',
+    stripinvisible: '#76a5af',
+    nfc: '#76a5af',
+    nfkc: '#76a5af',
+    straightenquotes: '#76a5af',
+    removediacritics: '#76a5af',
+    sortlines: '#b6d7a8',
+    uniquelines: '#b6d7a8',
+    reverselines: '#b6d7a8',
+    shufflelines: '#b6d7a8',
+    numberlines: '#b6d7a8',
+    dropblanklines: '#b6d7a8',
+    dedent: '#b6d7a8',
+    indent: '#b6d7a8',
+    hardwrap: '#b6d7a8',
+    unwrap: '#b6d7a8',
+    jsonpretty: '#76a5af',
+    jsonminify: '#76a5af',
+    jsonsortkeys: '#76a5af',
+    jsonvalidate: '#76a5af',
+    jsontoyaml: '#76a5af',
+    yamltojson: '#76a5af',
+    // Tables take a lighter shade of JSON's teal, since two of the three produce or read JSON
+    csvtojson: '#a2c4c9',
+    csvtomarkdown: '#a2c4c9',
+    jsontocsv: '#a2c4c9',
+    mdcodeblock: '#b4a7d6',
+    mdquote: '#b4a7d6',
+    mdbullets: '#b4a7d6',
+    mdnumbered: '#b4a7d6',
+    mdlink: '#b4a7d6',
+    mdtable: '#b4a7d6',
+    // The URL tools share URL Encode's purple
+    urltojson: '#ad7dc4',
+    jsontoquery: '#ad7dc4',
+    striptracking: '#ad7dc4',
+    removecredentials: '#ad7dc4',
+    // Extraction takes a lighter shade of regex's magenta, being pattern matching too
+    extracturls: '#d5a6bd',
+    extractemails: '#d5a6bd',
+    extractips: '#d5a6bd',
+    extractuuids: '#d5a6bd',
+    extractnumbers: '#d5a6bd',
+    extractcolors: '#d5a6bd',
+    colortohex: '#e06666',
+    colortorgb: '#e06666',
+    colortohsl: '#e06666',
+    colortooklch: '#e06666',
+    // Number conversions share the time conversions' blue
+    numtodec: '#9fc5e8',
+    numtohex: '#9fc5e8',
+    numtooct: '#9fc5e8',
+    numtobin: '#9fc5e8',
+    humanbytes: '#9fc5e8',
+    parsebytes: '#9fc5e8',
+    addseparators: '#9fc5e8',
+    stripseparators: '#9fc5e8',
+    regexreplace: '#c27ba0',
+    // Conversions take a lighter shade of the generators' blue: same subject, different job
+    tounix: '#9fc5e8',
+    tounixms: '#9fc5e8',
+    toiso: '#9fc5e8',
+    md5: '#8e7cc3',
+    sha1: '#8e7cc3',
+    sha256: '#8e7cc3',
+    sha512: '#8e7cc3',
+    hmac: '#8e7cc3',
 };
 
-function buildPickerItems(): PickerItem[] {
+/**
+ * A second line for transforms whose behaviour depends on this key's settings. The HMAC key is
+ * only ever shown as the fixed-width mask hidden clips use, so the picker confirms a key is set
+ * without giving away its length. Passwords show their policy's strength, never a sample.
+ */
+function settingsPreview(transform: TransformType, options: TransformOptions): string | undefined {
+    switch (transform) {
+        case 'hmac':
+            return options.hmacKey ? `Key ${MASK}` : 'No key yet — set one in the button settings';
+        case 'datecustom':
+            return [options.dateFormat?.trim() || DEFAULT_DATE_FORMAT, options.dateOffset?.trim()]
+                .filter(Boolean).join(', ');
+        case 'password': {
+            const policy = passwordPolicy(options);
+            return `${policy.length} characters, about ${passwordBits(policy)} bits`;
+        }
+        case 'passphrase': {
+            const policy = passphrasePolicy(options);
+            return `${policy.words} words, about ${passphraseBits(policy)} bits`;
+        }
+        case 'slugify': {
+            const policy = slugPolicy(options);
+            const limit = policy.maxLength > 0 ? `at most ${policy.maxLength} characters` : 'any length';
+            return `Joined with ${policy.separator}, ${limit}`;
+        }
+        case 'indent': {
+            const unit = indentUnit(options.indentBy);
+            return unit === '\t' ? 'By a tab' : `By ${unit.length} spaces`;
+        }
+        case 'hardwrap':
+            return `At ${wrapColumn(options.wrapColumn)} characters`;
+        case 'colortohex':
+            return boolOption(options.colorShortHex, false) ? 'Short form, such as #fc0, when nothing is lost' : undefined;
+        case 'addseparators':
+        case 'stripseparators':
+            try {
+                const sample = addSeparators('1234567.89', localeOption(options.numberLocale));
+                return `${transform === 'addseparators' ? 'Writes' : 'Reads'} ${sample}`;
+            } catch {
+                return 'Unknown locale — check the button settings';
+            }
+        default:
+            return undefined;
+    }
+}
+
+function buildPickerItems(options: TransformOptions, idPrefix = ''): PickerItem[] {
     return PICKER_GROUPS.flatMap(({ group, items }) =>
         items.map(id => ({
-            id,
+            id: `${idPrefix}${id}`,
             group,
             label: TRANSFORM_FULL_NAMES[id],
-            icon: TRANSFORM_ICONS[id],
+            preview: settingsPreview(id, options),
+            icon: iconFor(id),
             accent: TRANSFORM_ACCENTS[id],
         }))
     );
 }
 
-type UtilSettings = {
+/** The transform list plus the row that opens the pipeline editor, last so it never leads. */
+function buildTransformItems(options: TransformOptions): PickerItem[] {
+    return [
+        ...buildPickerItems(options),
+        {
+            id: BUILD_PIPELINE,
+            group: 'Pipeline',
+            label: 'Build a Pipeline…',
+            preview: 'Chain several transforms on this key',
+            icon: 'imgs/actions/utils/configure',
+        },
+    ];
+}
+
+/** A step in the editor, keyed so reordering keeps the same row selected. */
+type EditorStep = { key: string; transform: TransformType };
+
+function pipelineSummary(steps: readonly TransformType[]): string {
+    return steps.map(t => TRANSFORM_FULL_NAMES[t]).join(' → ');
+}
+
+/**
+ * Rows for the pipeline editor: the accept row, the chain so far, then every transform to
+ * append. Accepting comes first so Enter saves straight away after adding a step.
+ */
+function buildEditorItems(steps: readonly EditorStep[], options: TransformOptions): PickerItem[] {
+    const chain = steps.map(s => s.transform);
+    const head: PickerItem[] = steps.length === 0 ? [] : [{
+        id: SAVE_PIPELINE,
+        group: 'Pipeline',
+        label: 'Use This Pipeline',
+        preview: pipelineSummary(chain),
+        icon: 'imgs/actions/utils/configure',
+    }];
+    return [
+        ...head,
+        ...steps.map((s, i) => ({
+            id: `${STEP}${s.key}`,
+            group: 'Steps',
+            label: `${i + 1}. ${TRANSFORM_FULL_NAMES[s.transform]}`,
+            icon: iconFor(s.transform),
+            accent: TRANSFORM_ACCENTS[s.transform],
+        })),
+        ...buildPickerItems(options, ADD_STEP),
+    ];
+}
+
+type UtilSettings = TransformOptions & {
     transform?: TransformType;
+    /**
+     * Every step, in order, when the key runs more than one. `transform` is kept equal to the
+     * first step, so a property inspector that only knows about `transform` still shows
+     * something true — and choosing a different one there replaces the whole chain.
+     */
+    pipeline?: TransformType[];
     pasteMode?: PasteMode;
 };
 
+/** What the key runs: the pipeline when there is one, otherwise the single transform. */
+function stepsOf(settings: UtilSettings): TransformType[] {
+    if (settings.pipeline && settings.pipeline.length > 0) return settings.pipeline;
+    return settings.transform ? [settings.transform] : [];
+}
+
+/**
+ * Key title for a chain. The key fits about seven characters a line, far too few to list the
+ * steps, so it names the first and counts the rest; the picker shows the whole chain.
+ */
+function pipelineTitle(steps: readonly TransformType[]): string {
+    return steps.length === 1
+        ? TRANSFORM_LABELS[steps[0]]
+        : `${TRANSFORM_LABELS[steps[0]]}\n+${steps.length - 1} more`;
+}
+
+/**
+ * The paste mode to output with. A chain with a password anywhere in it is typed unless the key
+ * explicitly asks for the clipboard: Automatic would type a single line anyway, but this way no
+ * setting short of Clipboard Paste can leave a credential on the clipboard, where clipboard
+ * history keeps it.
+ */
+function pasteModeFor(settings: UtilSettings, steps: readonly TransformType[]): PasteMode | undefined {
+    return steps.some(isSecret) && settings.pasteMode !== 'clipboard' ? 'typing' : settings.pasteMode;
+}
+
+/** Settings for a chosen chain. A one-step chain is stored as a plain transform. */
+function withSteps(settings: UtilSettings, steps: TransformType[]): UtilSettings {
+    const { pipeline: _dropped, ...rest } = settings;
+    return steps.length > 1
+        ? { ...rest, transform: steps[0], pipeline: steps }
+        : { ...rest, transform: steps[0] };
+}
+
 @action({ UUID: "com.quickclips.streamdeck.clipboard-utils" })
 export class ClipboardUtils extends SingletonAction<UtilSettings> {
 
@@ -174,30 +776,108 @@ export class ClipboardUtils extends SingletonAction<UtilSettings> {
     private open = new Set<string>();
 
     /**
-     * Shows the transform picker, trying each available window host in turn (native, then any
-     * Chromium-family browser) and falling back to the osascript list if none can display.
-     * The fallback keeps the action fully functional on a bare machine.
+     * Shows the picker on the first window host that will display it. Returns the chosen id,
+     * null when cancelled, or undefined when no host could display at all.
      */
-    private async promptTransform(current?: TransformType): Promise<TransformType | null> {
+    private async showOnAnyHost(
+        items: PickerItem[],
+        options: Omit<PickerOptions, 'onWarn'>
+    ): Promise<string | null | undefined> {
         // Work down the available hosts. A host can exist yet fail to launch — an unsigned native
         // host that Gatekeeper quarantined is the usual cause — so a failure here must try the
         // next one rather than be mistaken for the user cancelling.
         for (const host of await findHosts()) {
             try {
-                const chosen = await showPicker(buildPickerItems(), host, {
-                    title: 'Quick Text Utils',
-                    subtitle: 'Pick what this button should do',
-                    filterPlaceholder: 'Filter transforms…',
-                    selectedId: current,
+                return await showPicker(items, host, {
+                    ...options,
                     onWarn: message => streamDeck.logger.warn(message),
                 });
-                return chosen as TransformType | null;
             } catch (error) {
                 streamDeck.logger.warn(`Picker host unavailable, trying the next one:`, error);
             }
         }
-        streamDeck.logger.info("No window host available; using the osascript picker");
-        return this.promptTransformViaOsascript();
+        return undefined;
+    }
+
+    /**
+     * Shows the transform picker, trying each available window host in turn (native, then any
+     * Chromium-family browser) and falling back to the osascript list if none can display.
+     * The fallback keeps the action fully functional on a bare machine, though it offers single
+     * transforms only — `choose from list` has nothing that could build a chain.
+     *
+     * Resolves the chosen steps: one for a plain transform, several for a pipeline.
+     */
+    private async promptTransform(current: TransformType[], options: TransformOptions): Promise<TransformType[] | null> {
+        const chosen = await this.showOnAnyHost(buildTransformItems(options), {
+            title: 'Quick Text Utils',
+            subtitle: 'Pick what this button should do',
+            filterPlaceholder: 'Filter transforms…',
+            selectedId: current.length > 1 ? BUILD_PIPELINE : current[0],
+        });
+        if (chosen === undefined) {
+            streamDeck.logger.info("No window host available; using the osascript picker");
+            const single = await this.promptTransformViaOsascript();
+            return single ? [single] : null;
+        }
+        if (chosen === BUILD_PIPELINE) return this.promptPipeline(current, options);
+        return chosen ? [chosen as TransformType] : null;
+    }
+
+    /**
+     * The pipeline editor: the chain so far, reorderable with Alt+arrows and trimmed with
+     * Delete, above every transform to append.
+     *
+     * Appending is a selection, and a selection closes the window, so the editor reopens after
+     * each one with the accept row highlighted. Reordering and deleting keep the window open,
+     * which is why those happen in place.
+     */
+    private async promptPipeline(initial: TransformType[], options: TransformOptions): Promise<TransformType[] | null> {
+        let nextKey = 0;
+        const keyed = (transform: TransformType): EditorStep => ({ key: String(nextKey++), transform });
+        let steps = initial.map(keyed);
+        const indexOf = (itemId: string) => steps.findIndex(s => `${STEP}${s.key}` === itemId);
+
+        for (;;) {
+            const chosen = await this.showOnAnyHost(buildEditorItems(steps, options), {
+                title: 'Build a Pipeline',
+                subtitle: steps.length
+                    ? 'Each step runs on the output of the one before'
+                    : 'Pick the first step',
+                filterPlaceholder: 'Filter transforms…',
+                selectedId: steps.length ? SAVE_PIPELINE : undefined,
+                actions: [{ id: 'clear', label: 'Start over', hint: 'Remove every step' }],
+                onAction: async () => {
+                    steps = [];
+                    return buildEditorItems(steps, options);
+                },
+                onReorder: async (itemId, delta) => {
+                    const from = indexOf(itemId);
+                    if (from !== -1) {
+                        const to = Math.max(0, Math.min(steps.length - 1, from + delta));
+                        const next = [...steps];
+                        next.splice(to, 0, ...next.splice(from, 1));
+                        steps = next;
+                    }
+                    return buildEditorItems(steps, options);
+                },
+                onDelete: async itemId => {
+                    const at = indexOf(itemId);
+                    if (at === -1) throw new Error('Only steps in the pipeline can be removed');
+                    steps = steps.filter((_, i) => i !== at);
+                    return buildEditorItems(steps, options);
+                },
+            });
+            if (chosen === undefined) {
+                streamDeck.logger.error("No window host available; the pipeline editor cannot be shown");
+                return null;
+            }
+            if (chosen === null) return null;
+            if (chosen === SAVE_PIPELINE) return steps.map(s => s.transform);
+            if (chosen.startsWith(ADD_STEP)) {
+                steps = [...steps, keyed(chosen.slice(ADD_STEP.length) as TransformType)];
+            }
+            // Choosing a step row changes nothing; the editor simply reopens.
+        }
     }
 
     private async promptTransformViaOsascript(): Promise<TransformType | null> {
@@ -229,22 +909,71 @@ return item 1 of chosen`;
         await execAsync(`osascript -e 'display dialog "${message}" buttons {"OK"} default button "OK" with title "Word Count"'`);
     }
 
+    /**
+     * Lists the invisible characters found, with where each is, and shows the count on the key.
+     * The list is capped so a document full of no-break spaces still fits in a dialog. Where there
+     * is no AppleScript to show one, as on Linux, the list goes to the log instead.
+     */
+    private async showInvisible(ev: KeyUpEvent<UtilSettings>, settings: UtilSettings, text: string): Promise<void> {
+        const found = findInvisible(text);
+        await this.flash(ev, settings, found.length === 0 ? 'None\nFound' : `${found.length}\nFound`);
+        if (found.length === 0) return;
+        const lines = found.slice(0, INVISIBLE_LISTED)
+            .map(f => `Line ${f.line}, column ${f.column}: ${f.code} ${f.name}`);
+        if (found.length > INVISIBLE_LISTED) lines.push(`…and ${found.length - INVISIBLE_LISTED} more`);
+        try {
+            await execAsync(`osascript -e 'display dialog "${lines.join('\\n')}" buttons {"OK"} default button "OK" with title "Invisible Characters"'`);
+        } catch (error) {
+            streamDeck.logger.info(`Invisible characters (no dialog: ${String(error)}):\n${lines.join('\n')}`);
+        }
+    }
 
+    /** Shows `title` on the key for a moment, then puts the usual title back. */
+    private async flash(ev: KeyUpEvent<UtilSettings>, settings: UtilSettings, title: string): Promise<void> {
+        await ev.action.setTitle(title);
+        setTimeout(() => {
+            this.updateDisplay(ev, settings).catch(() => {});
+        }, FLASH_MS);
+    }
 
-
+    /**
+     * Says why a transform refused its input: the full reason to the log, and on the key which
+     * step of a chain it was, since a bare alert on a five-step pipeline explains nothing. A
+     * single transform shows its own short summary instead, when it has one.
+     */
+    private async reportFailure(ev: KeyUpEvent<UtilSettings>, settings: UtilSettings, error: unknown): Promise<void> {
+        const steps = stepsOf(settings);
+        if (error instanceof PipelineError) {
+            const name = TRANSFORM_LABELS[error.transform];
+            streamDeck.logger.warn(steps.length > 1
+                ? `Step ${error.step + 1} of ${steps.length} (${name}) failed: ${error.reason}`
+                : `${name} failed: ${error.reason}`);
+        } else {
+            streamDeck.logger.error("Transform failed:", error);
+        }
+        await ev.action.showAlert();
+        if (!(error instanceof PipelineError)) return;
+        if (steps.length > 1) {
+            await this.flash(ev, settings, `Step ${error.step + 1}\nfailed`);
+        } else if (error.keyTitle) {
+            await this.flash(ev, settings, error.keyTitle);
+        }
+    }
 
     private async updateDisplay(
         ev: WillAppearEvent<UtilSettings> | KeyDownEvent<UtilSettings> | KeyUpEvent<UtilSettings> | DidReceiveSettingsEvent<UtilSettings>,
         settings: UtilSettings
     ): Promise<void> {
+        // A pipeline shows its first step's artwork; the title says there is more to it.
+        const steps = stepsOf(settings);
         if ('setTitle' in ev.action && typeof ev.action.setTitle === 'function') {
-            await ev.action.setTitle(settings.transform ? TRANSFORM_LABELS[settings.transform] : 'Configure');
+            await ev.action.setTitle(steps.length ? pipelineTitle(steps) : 'Configure');
         }
         if ('setState' in ev.action && typeof ev.action.setState === 'function') {
-            await ev.action.setState(settings.transform ? 1 : 0);
+            await ev.action.setState(steps.length ? 1 : 0);
         }
         if ('setImage' in ev.action && typeof ev.action.setImage === 'function') {
-            await ev.action.setImage(settings.transform ? TRANSFORM_ICONS[settings.transform] : 'imgs/actions/utils/empty');
+            await ev.action.setImage(steps.length ? iconFor(steps[0]) : 'imgs/actions/utils/empty');
         }
     }
 
@@ -263,7 +992,41 @@ return item 1 of chosen`;
     }
 
     override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<UtilSettings>): Promise<void> {
-        await this.updateDisplay(ev, ev.payload.settings);
+        let settings = ev.payload.settings;
+        // The property inspector only edits `transform`. When it no longer matches the chain's
+        // first step, someone picked a different transform there, and that replaces the chain.
+        if (settings.pipeline?.length && settings.pipeline[0] !== settings.transform) {
+            settings = withSteps(settings, settings.transform ? [settings.transform] : []);
+            await ev.action.setSettings(settings);
+        }
+        await this.updateDisplay(ev, settings);
+    }
+
+    /**
+     * Property inspector "Test on Clipboard" button: runs the pattern the inspector currently
+     * shows against the clipboard and sends back the match count and a preview, so a pattern can
+     * be tried before the key is ever pressed. Nothing is output or saved.
+     */
+    override async onSendToPlugin(ev: SendToPluginEvent<any, UtilSettings>): Promise<void> {
+        if (ev.payload?.event !== 'testRegex') return;
+        const { pattern, replacement, flags } = ev.payload as { pattern?: string; replacement?: string; flags?: string };
+        let reply: { event: string; ok: boolean; matches?: number; preview?: string; reason?: string };
+        try {
+            // Inside the try, so a machine with no clipboard tool still gets its reason back
+            // rather than a button that never answers.
+            const text = await readClipboard();
+            if (!text) {
+                reply = { event: 'regexResult', ok: false, reason: 'The clipboard is empty' };
+            } else {
+                const { matches, output } = regexReplace(text, pattern ?? '', replacement ?? '', flags ?? 'g');
+                const preview = output.length > PREVIEW_CHARS ? `${output.slice(0, PREVIEW_CHARS)}…` : output;
+                reply = { event: 'regexResult', ok: true, matches, preview };
+            }
+        } catch (error) {
+            const reason = error instanceof TransformError ? error.message : String(error);
+            reply = { event: 'regexResult', ok: false, reason };
+        }
+        await streamDeck.ui.sendToPropertyInspector(reply);
     }
 
     override async onKeyDown(ev: KeyDownEvent<UtilSettings>): Promise<void> {
@@ -296,14 +1059,14 @@ return item 1 of chosen`;
                 return;
             }
             this.open.add(ev.action.id);
-            let chosen: TransformType | null;
+            let chosen: TransformType[] | null;
             try {
-                chosen = await this.promptTransform(settings.transform);
+                chosen = await this.promptTransform(stepsOf(settings), settings);
             } finally {
                 this.open.delete(ev.action.id);
             }
-            if (chosen) {
-                const newSettings: UtilSettings = { ...settings, transform: chosen };
+            if (chosen && chosen.length > 0) {
+                const newSettings = withSteps(settings, chosen);
                 await ev.action.setSettings(newSettings);
                 await this.updateDisplay(ev, newSettings);
             } else {
@@ -314,28 +1077,43 @@ return item 1 of chosen`;
         }
 
         // Short press — apply transform
-        if (!settings.transform) {
+        const steps = stepsOf(settings);
+        if (steps.length === 0) {
             await ev.action.showAlert();
             return;
         }
 
-        // Generators produce their own value, so an empty clipboard is not an error for them
-        const needsClipboard = !isGenerator(settings.transform);
+        // Generators produce their own value, so an empty clipboard is not an error for them.
+        // Only the first step matters: later ones work on what came before, not the clipboard.
+        const needsClipboard = !isGenerator(steps[0]);
         const text = needsClipboard ? await readClipboard() : '';
         if (needsClipboard && !text) {
             await ev.action.showAlert();
             return;
         }
 
-        if (settings.transform === 'count') {
-            await this.showCount(text);
+        let transformed: string;
+        let changed: number | undefined;
+        try {
+            ({ text: transformed, changed } = applyPipelineCounted(text, steps, settings));
+        } catch (error) {
+            await this.reportFailure(ev, settings, error);
+            return;
+        }
+
+        // Reports say something rather than output, so ending a chain with one reports on the
+        // result. Reaching here means validation passed; a failure was reported above.
+        const last = steps[steps.length - 1];
+        if (isReport(last)) {
+            if (last === 'count') await this.showCount(transformed);
             await ev.action.showOk();
+            if (last === 'jsonvalidate') await this.flash(ev, settings, 'Valid\nJSON');
+            if (last === 'findinvisible') await this.showInvisible(ev, settings, transformed);
             return;
         }
 
-        const transformed = applyTransform(text, settings.transform);
         try {
-            await outputText(transformed, settings.pasteMode,
+            await outputText(transformed, pasteModeFor(settings, steps),
                 m => streamDeck.logger.warn(m));
         } catch (error) {
             streamDeck.logger.error("Failed to output text:", error);
@@ -343,5 +1121,8 @@ return item 1 of chosen`;
             return;
         }
         await ev.action.showOk();
+        if (changed !== undefined) {
+            await this.flash(ev, settings, changed === 0 ? 'No\nChanges' : `${changed}\nChanged`);
+        }
     }
 }
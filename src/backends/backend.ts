@@ -0,0 +1,93 @@
+import { spawn } from "node:child_process";
+import { access, constants } from "node:fs/promises";
+import { delimiter, join } from "node:path";
+
+/**
+ * The platform-specific half of emitting text: reading and writing the clipboard, and pressing
+ * keys in the frontmost app.
+ *
+ * Deliberately mechanism only. Which mechanism to use for a given paste — typing, an explicit
+ * clipboard paste, or borrowing the clipboard and restoring it — is policy, and stays in
+ * src/typing.ts so that every platform honours the Automatic/Typing/Clipboard modes identically.
+ */
+export type ClipboardBackend = {
+    /** Shown in the log at startup, e.g. "macOS" or "Linux (Wayland: wl-clipboard, wtype)". */
+    name: string;
+    readClipboard(): Promise<string>;
+    writeClipboard(text: string): Promise<void>;
+    /** Presses the platform's paste shortcut — Cmd+V on macOS, Ctrl+V elsewhere. */
+    pressPaste(): Promise<void>;
+    /**
+     * Types `text` exactly, or resolves false *without typing anything* when this backend cannot
+     * do so faithfully. The caller then pastes via a borrowed clipboard instead.
+     *
+     * A backend that returns false should explain why through `onWarn`, since the fallback
+     * briefly overwrites the user's clipboard and that needs to be explicable after the fact.
+     */
+    typeText(text: string, onWarn?: (message: string) => void): Promise<boolean>;
+};
+
+/** A command that ran and exited non-zero, with the status so a caller can tell its meanings apart. */
+export class CommandError extends Error {
+    constructor(readonly command: string, readonly code: number | null) {
+        super(`${command} exited with code ${code}`);
+        this.name = "CommandError";
+    }
+}
+
+export function spawnWithInput(
+    command: string,
+    args: string[],
+    input: string,
+    env?: NodeJS.ProcessEnv
+): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const proc = spawn(command, args, { stdio: ["pipe", "ignore", "ignore"], env });
+        proc.on("error", reject);
+        proc.on("close", code => code === 0 ? resolve() : reject(new CommandError(command, code)));
+        proc.stdin.write(input);
+        proc.stdin.end();
+    });
+}
+
+/**
+ * Runs a command and resolves its stdout decoded as UTF-8.
+ *
+ * Chunks are concatenated before decoding, so a multi-byte character split across two reads
+ * cannot be mangled at the chunk boundary.
+ */
+export function spawnForOutput(
+    command: string,
+    args: string[],
+    env?: NodeJS.ProcessEnv
+): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const proc = spawn(command, args, { env, stdio: ["ignore", "pipe", "ignore"] });
+        const chunks: Uint8Array[] = [];
+        proc.stdout.on("data", chunk => chunks.push(chunk));
+        proc.on("error", reject);
+        proc.on("close", code => code === 0
+            ? resolve(Buffer.concat(chunks).toString("utf8"))
+            : reject(new CommandError(command, code)));
+    });
+}
+
+/**
+ * True when `command` is an executable somewhere on PATH.
+ *
+ * Checked by looking rather than by running it: `xdotool --version` and friends would each cost
+ * a process launch at startup, and some of these tools connect to the display server just to
+ * print their version.
+ */
+export async function hasCommand(command: string): Promise<boolean> {
+    for (const dir of (process.env.PATH ?? "").split(delimiter)) {
+        if (!dir) continue;
+        try {
+            await access(join(dir, command), constants.X_OK);
+            return true;
+        } catch {
+            // not in this directory — keep looking
+        }
+    }
+    return false;
+}
@@ -0,0 +1,123 @@
+import { CommandError, hasCommand, spawnForOutput, spawnWithInput, type ClipboardBackend } from "./backend.js";
+
+/**
+ * Linux: whichever clipboard and keystroke tools the session supports and the machine has.
+ *
+ * Wayland and X11 are probed separately because the tools do not cross over. `xclip` and
+ * `xdotool` under Wayland only reach XWayland windows, so they appear to work and then paste
+ * into nothing for every native Wayland app — which is worse than refusing outright.
+ *
+ *  - Wayland: `wl-paste`/`wl-copy` (wl-clipboard), `wtype` for keystrokes
+ *  - X11: `xclip`, else `xsel`, for the clipboard; `xdotool` for keystrokes
+ *
+ * Unlike AppleScript, both keystroke tools type Unicode directly, so there is no printable-ASCII
+ * restriction and nothing is declined.
+ */
+
+type ClipboardTool = {
+    name: string;
+    read: [string, string[]];
+    write: [string, string[]];
+    /** The status the read command exits with when the clipboard is empty, if it has one. */
+    emptyStatus?: number;
+};
+
+const WL_CLIPBOARD: ClipboardTool = {
+    name: "wl-clipboard",
+    // Without --no-newline wl-paste appends a newline the clip never had.
+    read: ["wl-paste", ["--no-newline"]],
+    write: ["wl-copy", []],
+    emptyStatus: 1,
+};
+
+const XCLIP: ClipboardTool = {
+    name: "xclip",
+    read: ["xclip", ["-selection", "clipboard", "-out"]],
+    write: ["xclip", ["-selection", "clipboard", "-in"]],
+    emptyStatus: 1,
+};
+
+const XSEL: ClipboardTool = {
+    name: "xsel",
+    read: ["xsel", ["--clipboard", "--output"]],
+    write: ["xsel", ["--clipboard", "--input"]],
+};
+
+type KeystrokeTool = { name: string; paste: string[]; type: (text: string) => string[] };
+
+const WTYPE: KeystrokeTool = {
+    name: "wtype",
+    paste: ["-M", "ctrl", "v", "-m", "ctrl"],
+    // `--` so text starting with a hyphen is typed rather than parsed as an option.
+    type: text => ["--", text],
+};
+
+const XDOTOOL: KeystrokeTool = {
+    name: "xdotool",
+    // --clearmodifiers, or a Stream Deck hotkey still held down turns Ctrl+V into something else.
+    paste: ["key", "--clearmodifiers", "ctrl+v"],
+    type: text => ["type", "--clearmodifiers", "--", text],
+};
+
+/** The first candidate whose command is installed, or null when none is. */
+async function firstInstalled<T>(candidates: T[], command: (c: T) => string): Promise<T | null> {
+    for (const candidate of candidates) {
+        if (await hasCommand(command(candidate))) return candidate;
+    }
+    return null;
+}
+
+/**
+ * Probes the session and PATH for usable tools.
+ *
+ * Throws when no clipboard tool is installed, since every action needs one. Missing keystroke
+ * tools are tolerated here and reported on first use instead: capturing into a Quick Clip still
+ * works without them, and refusing to start would hide that.
+ */
+export async function createLinuxBackend(): Promise<ClipboardBackend> {
+    const wayland = !!process.env.WAYLAND_DISPLAY;
+    const session = wayland ? "Wayland" : "X11";
+
+    const clipboard = await firstInstalled(wayland ? [WL_CLIPBOARD] : [XCLIP, XSEL], c => c.read[0]);
+    if (!clipboard) {
+        throw new Error(wayland
+            ? "no clipboard tool found for Wayland; install wl-clipboard"
+            : "no clipboard tool found for X11; install xclip or xsel");
+    }
+    const keys = await firstInstalled(wayland ? [WTYPE] : [XDOTOOL], k => k.name);
+
+    const requireKeys = (): KeystrokeTool => {
+        if (!keys) throw new Error(`no keystroke tool found for ${session}; install ${wayland ? "wtype" : "xdotool"}`);
+        return keys;
+    };
+
+    return {
+        name: `Linux (${session}: ${clipboard.name}, ${keys?.name ?? "no keystroke tool"})`,
+
+        async readClipboard() {
+            try {
+                return await spawnForOutput(...clipboard.read);
+            } catch (error) {
+                // wl-paste and xclip both exit 1 for an empty clipboard rather than printing
+                // nothing, as pbpaste does. Every caller already treats "" as empty. Anything
+                // else — the tool gone, or content it cannot give as text — is a failure, so a
+                // borrowed clipboard is not "restored" to empty over what the user had.
+                if (error instanceof CommandError && error.code === clipboard.emptyStatus) return "";
+                throw error;
+            }
+        },
+
+        writeClipboard: text => spawnWithInput(...clipboard.write, text),
+
+        async pressPaste() {
+            const tool = requireKeys();
+            await spawnWithInput(tool.name, tool.paste, "");
+        },
+
+        async typeText(text) {
+            const tool = requireKeys();
+            await spawnWithInput(tool.name, tool.type(text), "");
+            return true;
+        },
+    };
+}
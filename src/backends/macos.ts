@@ -0,0 +1,112 @@
+import { exec } from "node:child_process";
+import { promisify } from "node:util";
+import { access, constants, chmod } from "node:fs/promises";
+import { escapeForAppleScript } from "../utils.js";
+import { spawnForOutput, spawnWithInput, type ClipboardBackend } from "./backend.js";
+
+const execAsync = promisify(exec);
+
+/**
+ * macOS: `pbpaste`/`pbcopy` for the clipboard, and for typing one of two mechanisms, best first:
+ *
+ *  1. the bundled native helper, which posts Unicode directly and is exact
+ *  2. AppleScript `keystroke`, but only for *printable* ASCII — it synthesises presses against
+ *     the current keyboard layout, so anything else corrupts silently: non-ASCII becomes "a",
+ *     newlines vanish, and tabs move focus so the rest lands in the wrong field
+ *
+ * Anything neither can type is declined, and src/typing.ts borrows the clipboard instead.
+ * Silently wrong output is worse than a briefly borrowed clipboard.
+ */
+
+/** Native helper, relative to the sdPlugin root. Absent unless `npm run build:native` has run. */
+const NATIVE_HELPER = "bin/picker-host";
+
+/**
+ * Environment for `pbpaste`/`pbcopy`, forcing UTF-8.
+ *
+ * Both transcode using the process's CoreFoundation text encoding rather than assuming UTF-8.
+ * The Stream Deck plugin inherits `__CF_USER_TEXT_ENCODING=0x1F5:0x0:0x52` — encoding 0x0, not
+ * UTF-8 — so every non-ASCII character was replaced with U+FFFD at capture time. The clip was
+ * therefore already corrupt in settings, and pasting faithfully reproduced the corruption,
+ * which made it look like a typing bug.
+ *
+ * Reproduced directly: `env -i pbpaste` mangles the text, and adding LC_ALL fixes it even with
+ * the broken __CF_USER_TEXT_ENCODING still set.
+ */
+const CLIPBOARD_ENV = { ...process.env, LC_ALL: "en_US.UTF-8", LC_CTYPE: "UTF-8" };
+
+/**
+ * True when every character survives AppleScript's `keystroke` intact.
+ *
+ * Printable ASCII only, and deliberately conservative, because every failure here is silent
+ * corruption rather than an error. Measured behaviour of the excluded characters:
+ *
+ *  - non-ASCII is replaced by "a" (`→ café 🎉 日本語` arrives as `a cafa aa aaa`)
+ *  - newlines vanish entirely, so multi-line text is silently joined into one line
+ *  - tabs are delivered as real Tab presses, which move focus — so the remainder of the text
+ *    is typed into whatever gained focus, not the intended field
+ *
+ * The last two matter even though tabs and newlines are ASCII, which is why this checks the
+ * printable range rather than the full 7-bit one.
+ */
+export function isKeystrokeSafe(text: string): boolean {
+    return /^[\x20-\x7E]*$/.test(text);
+}
+
+/** Resolves the native helper, repairing the exec bit that `streamdeck pack` discards. */
+async function findNativeHelper(): Promise<string | null> {
+    try {
+        await access(NATIVE_HELPER, constants.X_OK);
+        return NATIVE_HELPER;
+    } catch {
+        try {
+            await access(NATIVE_HELPER, constants.F_OK);
+            await chmod(NATIVE_HELPER, 0o755);
+            await access(NATIVE_HELPER, constants.X_OK);
+            return NATIVE_HELPER;
+        } catch {
+            return null;
+        }
+    }
+}
+
+/** Types via AppleScript. Only safe for ASCII — see {@link isKeystrokeSafe}. */
+async function typeViaAppleScript(text: string): Promise<void> {
+    const script = `tell application "System Events" to keystroke "${escapeForAppleScript(text)}"`;
+    return spawnWithInput("osascript", ["-"], script);
+}
+
+export function createMacBackend(): ClipboardBackend {
+    return {
+        name: "macOS",
+
+        readClipboard: () => spawnForOutput("pbpaste", [], CLIPBOARD_ENV),
+
+        writeClipboard: text => spawnWithInput("pbcopy", [], text, CLIPBOARD_ENV),
+
+        async pressPaste() {
+            await execAsync('osascript -e \'tell application "System Events" to keystroke "v" using command down\'');
+        },
+
+        async typeText(text, onWarn) {
+            const helper = await findNativeHelper();
+            if (helper) {
+                try {
+                    await spawnWithInput(helper, ["--type-text"], text);
+                    return true;
+                } catch (error) {
+                    onWarn?.(`native typing helper failed, falling back: ${String(error)}`);
+                }
+            }
+
+            if (isKeystrokeSafe(text)) {
+                await typeViaAppleScript(text);
+                return true;
+            }
+
+            onWarn?.("text contains characters AppleScript cannot type (non-ASCII, newlines or tabs) " +
+                     "and no native helper is available; pasting via the clipboard and restoring it");
+            return false;
+        },
+    };
+}
@@ -0,0 +1,69 @@
+import type { ClipboardBackend } from "./backend.js";
+
+/**
+ * Something that happened to the pretend machine, in order.
+ *
+ * A paste records what was on the clipboard at the moment the key went down, because that is
+ * what the frontmost app received — and the borrow-and-restore path changes the clipboard again
+ * straight afterwards, so reading it later would report the restored value instead.
+ */
+export type RecordedEvent =
+    | { kind: "write"; text: string }
+    | { kind: "paste"; text: string }
+    | { kind: "type"; text: string };
+
+export type RecordingBackend = ClipboardBackend & {
+    /** The pretend clipboard. Tests set it to stage a capture, and read it to check a restore. */
+    clipboard: string;
+    events: RecordedEvent[];
+    /** Everything that reached the frontmost app, typed or pasted, in order. */
+    delivered(): string[];
+};
+
+/**
+ * An in-memory backend that touches nothing real, so the actions can be driven end to end on a
+ * machine with no pasteboard at all.
+ *
+ * @param canType Decides which text the pretend keyboard can type, standing in for a backend
+ * that declines — AppleScript without the native helper — so the fallback to a borrowed
+ * clipboard can be exercised. Types everything by default.
+ */
+export function createRecordingBackend(
+    options: { clipboard?: string; canType?: (text: string) => boolean } = {}
+): RecordingBackend {
+    const canType = options.canType ?? (() => true);
+    const backend: RecordingBackend = {
+        name: "Recording",
+        clipboard: options.clipboard ?? "",
+        events: [],
+
+        async readClipboard() {
+            return backend.clipboard;
+        },
+
+        async writeClipboard(text) {
+            backend.clipboard = text;
+            backend.events.push({ kind: "write", text });
+        },
+
+        async pressPaste() {
+            backend.events.push({ kind: "paste", text: backend.clipboard });
+        },
+
+        async typeText(text, onWarn) {
+            if (!canType(text)) {
+                onWarn?.("recording backend declined to type this text");
+                return false;
+            }
+            backend.events.push({ kind: "type", text });
+            return true;
+        },
+
+        delivered() {
+            return backend.events
+                .filter(e => e.kind === "paste" || e.kind === "type")
+                .map(e => e.text);
+        },
+    };
+    return backend;
+}
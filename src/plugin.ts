@@ -8,7 +8,7 @@
  * @module plugin
  * @author Glen Morgan
  * @version 1.0.0
- * @platform macOS
+ * @platform macOS; the clipboard logic also runs on Linux (see src/backends)
  */
 
 import { fileURLToPath } from "url";
@@ -18,6 +18,7 @@ import streamDeck from "@elgato/streamdeck";
 import { ClipboardSlot } from "./actions/clipboard-slot";
 import { ClipboardUtils } from "./actions/clipboard-utils";
 import { ClipboardManager } from "./actions/clipboard-manager";
+import { selectBackend } from "./typing";
 
 // When relaunched via `streamdeck restart`, process.cwd() may be the repo root
 // rather than the sdPlugin directory. The SDK uses process.cwd() to find manifest.json,
@@ -48,6 +49,15 @@ streamDeck.actions.registerAction(new ClipboardSlot());
 streamDeck.actions.registerAction(new ClipboardUtils());
 streamDeck.actions.registerAction(new ClipboardManager());
 
+/**
+ * Probe for the clipboard and keystroke tools now rather than on the first key press, so the log
+ * says up front which backend was chosen — or, on a Linux machine missing them, what to install.
+ */
+selectBackend().then(
+    backend => streamDeck.logger.info(`Clipboard backend: ${backend.name}`),
+    (error: unknown) => streamDeck.logger.error("No usable clipboard backend:", error)
+);
+
 /**
  * Establish connection with the Stream Deck application.
  * 
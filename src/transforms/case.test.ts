@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { applyTransform, type TransformType } from "../utils.js";
+import { splitWords, titleCase } from "./case.js";
+
+describe("splitWords", () => {
+    it("splits at spaces, punctuation and case changes", () => {
+        expect(splitWords("hello world")).toEqual(["hello", "world"]);
+        expect(splitWords("hello-world_again.now")).toEqual(["hello", "world", "again", "now"]);
+        expect(splitWords("helloWorld")).toEqual(["hello", "World"]);
+    });
+
+    it("keeps a run of capitals together as an acronym", () => {
+        expect(splitWords("HTTPServerError")).toEqual(["HTTP", "Server", "Error"]);
+        expect(splitWords("XMLHttpRequest")).toEqual(["XML", "Http", "Request"]);
+        expect(splitWords("userID")).toEqual(["user", "ID"]);
+        expect(splitWords("HTTP2Server")).toEqual(["HTTP2", "Server"]);
+    });
+
+    it("keeps digits with what they follow", () => {
+        expect(splitWords("base64Encode")).toEqual(["base64", "Encode"]);
+        expect(splitWords("utf8 v2Beta")).toEqual(["utf8", "v2", "Beta"]);
+    });
+
+    it("treats accented and non-Latin letters as letters", () => {
+        expect(splitWords("ÉcoleNormale")).toEqual(["École", "Normale"]);
+        expect(splitWords("École")).toEqual(["École"]);
+        expect(splitWords("привет мир")).toEqual(["привет", "мир"]);
+        expect(splitWords("日本語 テキスト")).toEqual(["日本語", "テキスト"]);
+    });
+
+    it("drops apostrophes within words", () => {
+        expect(splitWords("don't stop")).toEqual(["dont", "stop"]);
+    });
+});
+
+describe("case transforms", () => {
+    it("converts an acronym-heavy identifier to every case", () => {
+        const cases: [TransformType, string][] = [
+            ["snakecase", "http_server_error"],
+            ["dashcase", "http-server-error"],
+            ["dotcase", "http.server.error"],
+            ["pathcase", "http/server/error"],
+            ["constantcase", "HTTP_SERVER_ERROR"],
+            ["camelCase", "httpServerError"],
+            ["pascalcase", "HttpServerError"],
+            ["sentencecase", "Http server error"],
+        ];
+        for (const [type, expected] of cases) {
+            expect(applyTransform("HTTPServerError", type)).toBe(expected);
+        }
+    });
+
+    it("converts between identifier cases", () => {
+        expect(applyTransform("HELLO_WORLD", "camelCase")).toBe("helloWorld");
+        expect(applyTransform("helloWorld", "constantcase")).toBe("HELLO_WORLD");
+        expect(applyTransform("hello-world", "pascalcase")).toBe("HelloWorld");
+        expect(applyTransform("Hello World", "sentencecase")).toBe("Hello world");
+    });
+
+    it("drops punctuation that cannot be part of an identifier", () => {
+        expect(applyTransform("hello, world!", "snakecase")).toBe("hello_world");
+    });
+
+    it("converts each line on its own, keeping its line endings", () => {
+        expect(applyTransform("firstName\r\nlastName\r\n", "snakecase")).toBe("first_name\r\nlast_name\r\n");
+    });
+
+    it("handles non-Latin and accented words", () => {
+        expect(applyTransform("Привет Мир", "camelCase")).toBe("приветМир");
+        expect(applyTransform("école normale", "constantcase")).toBe("ÉCOLE_NORMALE");
+    });
+});
+
+describe("titleCase", () => {
+    it("keeps spacing and punctuation where they are", () => {
+        expect(titleCase("the  quick (brown) fox.")).toBe("The  Quick (Brown) Fox.");
+    });
+
+    it("keeps apostrophes within words", () => {
+        expect(titleCase("it's a dog's life")).toBe("It's A Dog's Life");
+    });
+
+    it("capitalises accented and non-Latin words", () => {
+        expect(titleCase("élan vital")).toBe("Élan Vital");
+        expect(titleCase("привет мир")).toBe("Привет Мир");
+    });
+});
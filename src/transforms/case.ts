@@ -0,0 +1,73 @@
+/**
+ * Case conversion, built on one word segmenter so every case agrees on where words start.
+ *
+ * Words are found with Unicode property escapes rather than `\w`, which only knows ASCII: `École`
+ * is one word, not `cole` after a stray character, and scripts without case, such as Japanese,
+ * stay whole. Within a word, a change of case starts a new one, and a run of capitals is an
+ * acronym — `HTTPServerError` is HTTP, Server and Error. Digits stay with what they follow, so
+ * `base64Encode` is base64 and Encode, and `utf8` is one word.
+ */
+
+/** Letters, marks and digits, plus an apostrophe between them, as in `don't`. */
+const TOKEN = /[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}\p{N}]+)*/gu;
+
+/**
+ * One word within a token, tried in order:
+ *
+ *  1. capitals, and any digits after them, ending where a capitalised word starts: the `HTTP` of
+ *     `HTTPServer`, the `HTTP2` of `HTTP2Server`
+ *  2. an optional capital and then lowercase letters and digits: `Server`, `base64`. Caseless
+ *     letters count as lowercase, so they join what they follow
+ *  3. a run of capitals and digits on its own: `ID`, `UTF8`
+ */
+const WORD = /[\p{Lu}\p{Lt}]+\p{N}*(?=[\p{Lu}\p{Lt}][\p{Ll}\p{Lm}\p{Lo}\p{M}])|[\p{Lu}\p{Lt}]?[\p{Ll}\p{Lm}\p{Lo}\p{M}\p{N}]+|[\p{Lu}\p{Lt}][\p{Lu}\p{Lt}\p{M}\p{N}]*/gu;
+
+/** The words of `text`, for joining into an identifier. Apostrophes are dropped: `don't` is `dont`. */
+export function splitWords(text: string): string[] {
+    return (text.match(TOKEN) ?? []).flatMap(token => token.replace(/['’]/g, "").match(WORD) ?? []);
+}
+
+/** First letter up, the rest down. By code point, so a word starting with an emoji or `𝐀` is not split. */
+function capitalise(word: string): string {
+    const [first = "", ...rest] = Array.from(word);
+    return first.toUpperCase() + rest.join("").toLowerCase();
+}
+
+/**
+ * Converts each line on its own, so a column of names stays a column, keeping the text's line
+ * endings.
+ */
+function perLine(text: string, convert: (words: string[]) => string): string {
+    return text.split(/(\r?\n)/).map((part, i) => (i % 2 ? part : convert(splitWords(part)))).join("");
+}
+
+export function camelCase(text: string): string {
+    return perLine(text, words => words.map((w, i) => (i === 0 ? w.toLowerCase() : capitalise(w))).join(""));
+}
+
+export function pascalCase(text: string): string {
+    return perLine(text, words => words.map(capitalise).join(""));
+}
+
+/** Lowercase words joined by `separator`: snake_case, dash-case, dot.case and path/case. */
+export function delimitedCase(text: string, separator: string): string {
+    return perLine(text, words => words.map(w => w.toLowerCase()).join(separator));
+}
+
+export function constantCase(text: string): string {
+    return perLine(text, words => words.map(w => w.toUpperCase()).join("_"));
+}
+
+/** `helloWorld` and `HELLO_WORLD` both become `Hello world`. */
+export function sentenceCase(text: string): string {
+    return perLine(text, words => words.map((w, i) => (i === 0 ? capitalise(w) : w.toLowerCase())).join(" "));
+}
+
+/**
+ * Capitalises each word where it stands, leaving the spacing and punctuation around it, since title
+ * case is for prose rather than identifiers. Words here are whole tokens, so `hELLO` is one word
+ * and becomes `Hello`, and `it's` stays `It's`.
+ */
+export function titleCase(text: string): string {
+    return text.replace(TOKEN, capitalise);
+}
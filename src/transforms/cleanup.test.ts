@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { findInvisible, normalize, removeDiacritics, straightenQuotes, stripInvisible } from "./cleanup.js";
+
+describe("invisible characters", () => {
+    it("finds zero-width and bidi characters with where they are", () => {
+        expect(findInvisible("ab\u200bc\nd\u202ee")).toEqual([
+            { name: "ZERO WIDTH SPACE", code: "U+200B", line: 1, column: 3 },
+            { name: "RIGHT-TO-LEFT OVERRIDE", code: "U+202E", line: 2, column: 2 },
+        ]);
+    });
+
+    it("finds nothing in ordinary text, tabs and line breaks included", () => {
+        expect(findInvisible("a\tb\r\nc")).toEqual([]);
+    });
+
+    it("strips them and turns look-alike spaces into plain ones", () => {
+        expect(stripInvisible("\ufeffgit\u00a0commit\u200b -m\u202f\"x\"")).toEqual({ text: "git commit -m \"x\"", changed: 4 });
+    });
+
+    it("strips tag characters hiding text", () => {
+        expect(stripInvisible("hi\u{e0041}\u{e0042}")).toEqual({ text: "hi", changed: 2 });
+    });
+
+    it("keeps joiners that emoji and scripts need", () => {
+        const family = "👨\u200d👩\u200d👧";
+        const persian = "می\u200cخواهم";
+        const scotland = "🏴\u{e0067}\u{e0062}\u{e0073}\u{e0063}\u{e0074}\u{e007f}";
+        for (const text of [family, persian, scotland]) {
+            expect(stripInvisible(text)).toEqual({ text, changed: 0 });
+        }
+        expect(stripInvisible("a\u200db")).toEqual({ text: "ab", changed: 1 });
+    });
+});
+
+describe("normalize", () => {
+    it("composes letters with their accents under NFC", () => {
+        expect(normalize("cafe\u0301 café", "NFC")).toEqual({ text: "café café", changed: 1 });
+    });
+
+    it("folds compatibility forms under NFKC only", () => {
+        expect(normalize("ﬁＡ²", "NFC")).toEqual({ text: "ﬁＡ²", changed: 0 });
+        expect(normalize("ﬁＡ²", "NFKC")).toEqual({ text: "fiA2", changed: 3 });
+    });
+});
+
+describe("straightenQuotes", () => {
+    it("straightens quotes, dashes and ellipses", () => {
+        expect(straightenQuotes("“it’s” — 1–2…")).toEqual({ text: "\"it's\" - 1-2...", changed: 6 });
+    });
+
+    it("leaves plain text alone", () => {
+        expect(straightenQuotes("--force 'x'")).toEqual({ text: "--force 'x'", changed: 0 });
+    });
+});
+
+describe("removeDiacritics", () => {
+    it("removes accents, composed or not, and strokes", () => {
+        expect(removeDiacritics("Crème brûlée, Łódź, e\u0301")).toEqual({ text: "Creme brulee, Lodz, e", changed: 7 });
+    });
+
+    it("removes them from Greek and Cyrillic", () => {
+        expect(removeDiacritics("ά й").text).toBe("α и");
+    });
+
+    it("keeps marks that are vowels in other scripts", () => {
+        expect(removeDiacritics("हिन्दी שָׁלוֹם")).toEqual({ text: "हिन्दी שָׁלוֹם", changed: 0 });
+    });
+});
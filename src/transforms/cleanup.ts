@@ -0,0 +1,211 @@
+import { lineAndColumn } from "./shared.js";
+
+/**
+ * Cleanup for text pasted out of Slack, Word and PDFs: invisible and bidi control characters,
+ * Unicode normalisation, typographic quotes and dashes, and diacritics.
+ *
+ * None of these can fail, and each says how many characters it changed, so a key can show that
+ * something happened even when the difference cannot be seen — which for invisible characters is
+ * the whole point.
+ */
+
+export type Cleaned = {
+    text: string;
+    /** How many characters of the input were removed or replaced. */
+    changed: number;
+};
+
+/** Characters that take up no room, or that only steer the direction of the text around them. */
+const INVISIBLE: Readonly<Record<number, string>> = {
+    0x00ad: "SOFT HYPHEN",
+    0x061c: "ARABIC LETTER MARK",
+    0x180e: "MONGOLIAN VOWEL SEPARATOR",
+    0x200b: "ZERO WIDTH SPACE",
+    0x200c: "ZERO WIDTH NON-JOINER",
+    0x200d: "ZERO WIDTH JOINER",
+    0x200e: "LEFT-TO-RIGHT MARK",
+    0x200f: "RIGHT-TO-LEFT MARK",
+    0x202a: "LEFT-TO-RIGHT EMBEDDING",
+    0x202b: "RIGHT-TO-LEFT EMBEDDING",
+    0x202c: "POP DIRECTIONAL FORMATTING",
+    0x202d: "LEFT-TO-RIGHT OVERRIDE",
+    0x202e: "RIGHT-TO-LEFT OVERRIDE",
+    0x2060: "WORD JOINER",
+    0x2061: "FUNCTION APPLICATION",
+    0x2062: "INVISIBLE TIMES",
+    0x2063: "INVISIBLE SEPARATOR",
+    0x2064: "INVISIBLE PLUS",
+    0x2066: "LEFT-TO-RIGHT ISOLATE",
+    0x2067: "RIGHT-TO-LEFT ISOLATE",
+    0x2068: "FIRST STRONG ISOLATE",
+    0x2069: "POP DIRECTIONAL ISOLATE",
+    0xfeff: "ZERO WIDTH NO-BREAK SPACE",
+};
+
+/**
+ * Spaces that look like a space and are not one: with a no-break space in it, `ls -l` is a single
+ * word to a shell. These become a plain space rather than vanishing. The ideographic space is left
+ * alone, since in Chinese and Japanese text it is the ordinary space.
+ */
+const SPACES: Readonly<Record<number, string>> = {
+    0x00a0: "NO-BREAK SPACE",
+    0x2000: "EN QUAD",
+    0x2001: "EM QUAD",
+    0x2002: "EN SPACE",
+    0x2003: "EM SPACE",
+    0x2004: "THREE-PER-EM SPACE",
+    0x2005: "FOUR-PER-EM SPACE",
+    0x2006: "SIX-PER-EM SPACE",
+    0x2007: "FIGURE SPACE",
+    0x2008: "PUNCTUATION SPACE",
+    0x2009: "THIN SPACE",
+    0x200a: "HAIR SPACE",
+    0x202f: "NARROW NO-BREAK SPACE",
+    0x205f: "MEDIUM MATHEMATICAL SPACE",
+};
+
+/** The code point of a character from `Array.from`, which never splits a surrogate pair. */
+function codePoint(char: string): number {
+    return char.codePointAt(0) ?? 0;
+}
+
+const isTag = (code: number) => code >= 0xe0000 && code <= 0xe007f;
+
+/** What a found character is, for the report, or `null` when it is ordinary. */
+function describe(code: number): string | null {
+    if (Object.hasOwn(INVISIBLE, code)) return INVISIBLE[code];
+    if (Object.hasOwn(SPACES, code)) return SPACES[code];
+    // Controls other than tab, line feed and carriage return, which text legitimately holds.
+    if ((code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d) || (code >= 0x7f && code <= 0x9f)) {
+        return "CONTROL CHARACTER";
+    }
+    // Tag characters spell out ASCII that no one can see, which is how instructions get hidden in
+    // text meant for a language model.
+    if (isTag(code)) return "TAG CHARACTER";
+    return null;
+}
+
+const EMOJI = /[\p{Extended_Pictographic}\p{Emoji_Modifier}\u{fe0f}]/u;
+
+/**
+ * Whether an invisible character at `i` is doing a job and must stay: a zero-width joiner inside
+ * an emoji sequence such as the family emoji, a joiner or non-joiner between letters of a script
+ * that shapes with them, as Persian and the Indic scripts do, or tag characters naming a
+ * subdivision flag such as Scotland's.
+ */
+function isMeaningful(chars: readonly string[], i: number): boolean {
+    const code = codePoint(chars[i]);
+    const before = chars[i - 1] ?? "";
+    const after = chars[i + 1] ?? "";
+    if (code === 0x200d && EMOJI.test(before) && /\p{Extended_Pictographic}/u.test(after)) return true;
+    if ((code === 0x200c || code === 0x200d)
+        && /[\p{L}\p{M}]/u.test(before) && /[\p{L}\p{M}]/u.test(after)
+        && !/\p{Script=Latin}/u.test(before + after)) {
+        return true;
+    }
+    if (isTag(code)) {
+        let j = i;
+        while (j > 0 && isTag(codePoint(chars[j - 1]))) j--;
+        return chars[j - 1] === "\u{1f3f4}";
+    }
+    return false;
+}
+
+export type Finding = { name: string; code: string; line: number; column: number };
+
+/** Every invisible, bidi control or look-alike space in the text, where it is and what it is called. */
+export function findInvisible(text: string): Finding[] {
+    const chars = Array.from(text);
+    const findings: Finding[] = [];
+    let offset = 0;
+    chars.forEach((char, i) => {
+        const code = codePoint(char);
+        const name = describe(code);
+        if (name !== null && !isMeaningful(chars, i)) {
+            findings.push({
+                name,
+                code: `U+${code.toString(16).toUpperCase().padStart(4, "0")}`,
+                ...lineAndColumn(text, offset),
+            });
+        }
+        offset += char.length;
+    });
+    return findings;
+}
+
+/** Removes what {@link findInvisible} finds, turning the look-alike spaces into plain ones. */
+export function stripInvisible(text: string): Cleaned {
+    const chars = Array.from(text);
+    let changed = 0;
+    const kept = chars.map((char, i) => {
+        const code = codePoint(char);
+        if (describe(code) === null || isMeaningful(chars, i)) return char;
+        changed++;
+        return Object.hasOwn(SPACES, code) ? " " : "";
+    });
+    return { text: kept.join(""), changed };
+}
+
+/**
+ * A character and the combining marks on it. Normalisation and diacritics both work on these,
+ * and counting them gives the number of characters a person would say changed.
+ */
+const CLUSTER = /\P{M}\p{M}*|\p{M}+/gsu;
+
+/**
+ * NFC composes `e` and a combining acute into one `é`, so text compares and searches as it reads.
+ * NFKC goes further and folds compatibility forms too: `ﬁ` to `fi`, full-width `Ａ` to `A`, `²`
+ * to `2`.
+ */
+export function normalize(text: string, form: "NFC" | "NFKC"): Cleaned {
+    let changed = 0;
+    for (const [cluster] of text.matchAll(CLUSTER)) {
+        if (cluster.normalize(form) !== cluster) changed++;
+    }
+    return { text: text.normalize(form), changed };
+}
+
+/**
+ * Typographic punctuation and its plain equivalent. Word and Slack turn `--` into a dash and
+ * quotes into curly ones as you type, which is how `--force` arrives as `—force`. Dashes all
+ * become a single hyphen, since which one was meant cannot be told from the result.
+ */
+const PLAIN: Readonly<Record<string, string>> = {
+    "‘": "'", "’": "'", "‚": "'", "‛": "'", "′": "'",
+    "“": "\"", "”": "\"", "„": "\"", "‟": "\"", "″": "\"",
+    "‐": "-", "‑": "-", "‒": "-", "–": "-", "—": "-", "―": "-", "−": "-",
+    "…": "...",
+};
+
+export function straightenQuotes(text: string): Cleaned {
+    let changed = 0;
+    const plain = text.replace(/[‘-‟′″‐-―−…]/g, char => {
+        if (!Object.hasOwn(PLAIN, char)) return char;
+        changed++;
+        return PLAIN[char];
+    });
+    return { text: plain, changed };
+}
+
+/** Letters whose stroke or bar is part of the letter rather than a separate mark, so NFD leaves them whole. */
+const STROKED: Readonly<Record<string, string>> = {
+    "ø": "o", "Ø": "O", "ł": "l", "Ł": "L", "đ": "d", "Đ": "D",
+    "ħ": "h", "Ħ": "H", "ŧ": "t", "Ŧ": "T", "ƀ": "b", "ɨ": "i",
+};
+
+/**
+ * `café` to `cafe`. Only Latin, Greek and Cyrillic letters lose their marks: in Hindi, Arabic or
+ * Hebrew the marks are vowels, and stripping them would change the words rather than their
+ * accents.
+ */
+export function removeDiacritics(text: string): Cleaned {
+    let changed = 0;
+    const plain = text.replace(CLUSTER, cluster => {
+        if (!/^[\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}]/u.test(cluster)) return cluster;
+        const base = cluster.normalize("NFD").replace(/\p{Mn}/gu, "");
+        const stripped = (Object.hasOwn(STROKED, base) ? STROKED[base] : base).normalize("NFC");
+        if (stripped !== cluster.normalize("NFC")) changed++;
+        return stripped;
+    });
+    return { text: plain, changed };
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { applyTransform, type TransformType } from "../utils.js";
+import { failure } from "./testing.js";
+
+const ALL: TransformType[] = ["colortohex", "colortorgb", "colortohsl", "colortooklch"];
+
+describe("colour transforms", () => {
+    it("convert an opaque colour to every notation", () => {
+        expect(ALL.map(t => applyTransform("#ff8800", t)))
+            .toEqual(["#ff8800", "rgb(255, 136, 0)", "hsl(32, 100%, 50%)", "oklch(74.42% 0.1812 56.46)"]);
+    });
+
+    it("carry alpha through", () => {
+        expect(ALL.map(t => applyTransform("hsl(210deg 50% 40% / 0.25)", t))).toEqual([
+            "#33669940", "rgba(51, 102, 153, 0.25)", "hsla(210, 50%, 40%, 0.25)", "oklch(49.93% 0.0987 250.43 / 0.25)",
+        ]);
+    });
+
+    it("read every notation, in the comma and the space syntax", () => {
+        for (const input of [
+            "#F80", "rgb(255, 136, 0)", "rgba(255,136,0,1)", "rgb(255 136 0)", "rgb(100% 53.333% 0%)",
+            "hsl(32, 100%, 50%)", "hsl(32 100 50)", "hsla(0.0889turn, 100%, 50%, 100%)",
+            "oklch(74.42% 0.1812 56.46)", "OKLCH(0.7442 45.3% 56.46deg)",
+        ]) {
+            expect(applyTransform(input, "colortohex"), input).toBe("#ff8800");
+        }
+    });
+
+    it("writes short hex only when asked and nothing is lost", () => {
+        expect(applyTransform("rgb(255, 204, 0)", "colortohex", { colorShortHex: true })).toBe("#fc0");
+        expect(applyTransform("rgba(255, 204, 0, 0.6)", "colortohex", { colorShortHex: "true" })).toBe("#fc09");
+        expect(applyTransform("#ff8801", "colortohex", { colorShortHex: true })).toBe("#ff8801");
+        expect(applyTransform("#fc0", "colortohex")).toBe("#ffcc00");
+    });
+
+    it("writes greys without a hue and a hue near 360 as 0", () => {
+        expect(applyTransform("#808080", "colortooklch")).toBe("oklch(59.99% 0 0)");
+        expect(applyTransform("#ffffff", "colortohsl")).toBe("hsl(0, 0%, 100%)");
+        expect(applyTransform("oklch(62.8% 0.2577 29.23)", "colortohsl")).toBe("hsl(0, 100%, 50%)");
+    });
+
+    it("clamps an oklch() colour outside sRGB", () => {
+        expect(applyTransform("oklch(90% 0.4 140)", "colortohex")).toBe("#00ff00");
+        expect(applyTransform("oklch(90% 0.4 140)", "colortooklch")).toBe("oklch(90% 0.4 140)");
+    });
+
+    it("refuses what is not a colour, with the reason", () => {
+        expect(failure(() => applyTransform("red", "colortorgb")).keyTitle).toBe("Not\nColour");
+        const missing = failure(() => applyTransform("rgb(1, 2)", "colortohex"));
+        expect(missing.message).toBe("Not a colour: rgb() takes three values and an optional alpha, and this has 2");
+        expect(missing.keyTitle).toBe("Bad\nColour");
+        expect(failure(() => applyTransform("hsl(10px 50% 50%)", "colortohex")).message)
+            .toBe('Not a colour: "10px" is not a number');
+        expect(failure(() => applyTransform("rgb(255 0 0 /)", "colortohex")).message)
+            .toBe('Not a colour: rgb() has nothing after "/", where the alpha goes');
+        expect(failure(() => applyTransform("rgb(255 0 0 / 1 / 1)", "colortohex")).message)
+            .toBe('Not a colour: rgb() has more than one "/"');
+    });
+});
@@ -0,0 +1,210 @@
+import { TransformError } from "./shared.js";
+
+/**
+ * Colour conversion between hex, `rgb()`, `hsl()` and `oklch()`, reading whichever of them it is
+ * given, in the legacy comma syntax or the space-separated one CSS Color 4 added.
+ *
+ * Everything goes through sRGB. OKLCH reaches colours sRGB cannot show, and those are clamped
+ * channel by channel on the way to the other three notations, which is what a browser without
+ * gamut mapping does too.
+ */
+
+/** sRGB channels and alpha, each from 0 to 1. Channels from `oklch()` may fall outside that. */
+type Rgba = { r: number; g: number; b: number; alpha: number };
+
+export type ColorNotation = "hex" | "rgb" | "hsl" | "oklch";
+
+const NOT_A_COLOR = "Not a colour: expected #RRGGBB, rgb(), hsl() or oklch()";
+
+function badColor(reason: string): never {
+    throw new TransformError(`Not a colour: ${reason}`, "Bad\nColour");
+}
+
+/** A number with its unit, as a CSS colour function's argument is written. `none` is zero. */
+function argument(text: string): { value: number; unit: string } {
+    if (text.toLowerCase() === "none") return { value: 0, unit: "" };
+    const m = /^([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)(%|deg|grad|rad|turn)?$/i.exec(text);
+    if (!m) badColor(`"${text}" is not a number`);
+    return { value: Number(m[1]), unit: (m[2] ?? "").toLowerCase() };
+}
+
+/** A hue in degrees, from any of the angle units CSS allows. */
+function hue(text: string): number {
+    const { value, unit } = argument(text);
+    const degrees = unit === "turn" ? value * 360 : unit === "rad" ? (value * 180) / Math.PI
+        : unit === "grad" ? value * 0.9 : unit === "" || unit === "deg" ? value
+        : badColor(`"${text}" is not an angle`);
+    return ((degrees % 360) + 360) % 360;
+}
+
+/** A value where 100% means `full`, such as 255 for an `rgb()` channel. */
+function scaled(text: string, full: number): number {
+    const { value, unit } = argument(text);
+    if (unit === "%") return (value / 100) * full;
+    if (unit !== "") badColor(`"${text}" cannot have a unit`);
+    return value;
+}
+
+const clamp = (n: number, min = 0, max = 1) => Math.min(max, Math.max(min, n));
+
+function fromHex(hex: string): Rgba {
+    const digits = hex.length <= 4 ? [...hex].map(d => d + d).join("") : hex;
+    const byte = (i: number) => Number.parseInt(digits.slice(i * 2, i * 2 + 2), 16) / 255;
+    return { r: byte(0), g: byte(1), b: byte(2), alpha: digits.length === 8 ? byte(3) : 1 };
+}
+
+/** The hue, saturation and lightness of `hsl()` as sRGB. */
+function fromHsl(h: number, s: number, l: number): [number, number, number] {
+    const k = (n: number) => (n + h / 30) % 12;
+    const a = s * Math.min(l, 1 - l);
+    const channel = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+    return [channel(0), channel(8), channel(4)];
+}
+
+const toLinear = (c: number) => (Math.abs(c) <= 0.04045 ? c / 12.92 : Math.sign(c) * ((Math.abs(c) + 0.055) / 1.055) ** 2.4);
+const fromLinear = (c: number) => (Math.abs(c) <= 0.0031308 ? c * 12.92 : Math.sign(c) * (1.055 * Math.abs(c) ** (1 / 2.4) - 0.055));
+
+/** OKLCH as sRGB, through OKLab, with Björn Ottosson's matrices. */
+function fromOklch(l: number, c: number, h: number): [number, number, number] {
+    const a = c * Math.cos((h * Math.PI) / 180);
+    const b = c * Math.sin((h * Math.PI) / 180);
+    const l_ = (l + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+    const m_ = (l - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+    const s_ = (l - 0.0894841775 * a - 1.2914855480 * b) ** 3;
+    return [
+        fromLinear(4.0767416621 * l_ - 3.3077115913 * m_ + 0.2309699292 * s_),
+        fromLinear(-1.2684380046 * l_ + 2.6097574011 * m_ - 0.3413193965 * s_),
+        fromLinear(-0.0041960863 * l_ - 0.7034186147 * m_ + 1.7076147010 * s_),
+    ];
+}
+
+/**
+ * Reads a colour in any of the four notations.
+ *
+ * @throws TransformError when the text is not one of them, or a value in it is not a number of
+ * the right kind.
+ */
+function parseColor(text: string): Rgba {
+    const trimmed = text.trim();
+    if (/^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(trimmed)) {
+        return fromHex(trimmed.slice(1));
+    }
+    const call = /^(rgba?|hsla?|oklch)\(\s*(.*?)\s*\)$/is.exec(trimmed);
+    if (!call) throw new TransformError(NOT_A_COLOR, "Not\nColour");
+    const name = call[1].toLowerCase();
+    let args: string[];
+    let alphaText: string | undefined;
+    if (call[2].includes(",")) {
+        // The legacy syntax: commas throughout, and alpha as a fourth value.
+        args = call[2].split(",").map(s => s.trim());
+        if (args.length === 4) alphaText = args.pop();
+    } else {
+        const [channels, alpha, ...extra] = call[2].split("/").map(s => s.trim());
+        if (extra.length > 0) badColor(`${name}() has more than one "/"`);
+        if (alpha === "") badColor(`${name}() has nothing after "/", where the alpha goes`);
+        args = channels.split(/\s+/);
+        alphaText = alpha;
+    }
+    if (args.length !== 3) {
+        badColor(`${name}() takes three values and an optional alpha, and this has ${args.length}`);
+    }
+    const alpha = alphaText === undefined ? 1 : clamp(scaled(alphaText, 1));
+    const [x, y, z] = args;
+    switch (name) {
+        case "rgb":
+        case "rgba": {
+            const [r, g, b] = args.map(arg => clamp(scaled(arg, 255) / 255));
+            return { r, g, b, alpha };
+        }
+        case "hsl":
+        case "hsla": {
+            const [r, g, b] = fromHsl(hue(x), clamp(scaled(y, 100) / 100), clamp(scaled(z, 100) / 100));
+            return { r, g, b, alpha };
+        }
+        default: {
+            // 100% is a chroma of 0.4, as CSS Color 4 defines it.
+            const [r, g, b] = fromOklch(clamp(scaled(x, 1)), Math.max(0, scaled(y, 0.4)), hue(z));
+            return { r, g, b, alpha };
+        }
+    }
+}
+
+/** A number with at most `places` decimals, and no trailing zeros or negative zero. */
+function decimal(n: number, places: number): string {
+    const s = String(Number(n.toFixed(places)));
+    return s === "-0" ? "0" : s;
+}
+
+/** A hue with at most `places` decimals, where one that rounds up to 360 is written as 0. */
+function angle(degrees: number, places: number): string {
+    return decimal(Number(degrees.toFixed(places)) % 360, places);
+}
+
+/** The alpha part of a modern colour function, or nothing when the colour is opaque. */
+function alphaSuffix(color: Rgba, separator: string): string {
+    return color.alpha < 1 ? `${separator}${decimal(color.alpha, 3)}` : "";
+}
+
+const byte = (c: number) => Math.round(clamp(c) * 255);
+
+/**
+ * `#rrggbb`, or `#rrggbbaa` when the colour is not opaque. With `short`, `#rgb` or `#rgba` when
+ * every pair is a doubled digit, so nothing is lost.
+ */
+function toHex(color: Rgba, short: boolean): string {
+    const bytes = [color.r, color.g, color.b, color.alpha].map(byte);
+    if (bytes[3] === 255) bytes.pop();
+    const pairs = bytes.map(n => n.toString(16).padStart(2, "0"));
+    const shortened = short && pairs.every(p => p[0] === p[1]);
+    return `#${pairs.map(p => (shortened ? p[0] : p)).join("")}`;
+}
+
+function toRgb(color: Rgba): string {
+    const channels = [color.r, color.g, color.b].map(byte).join(", ");
+    return color.alpha < 1 ? `rgba(${channels}${alphaSuffix(color, ", ")})` : `rgb(${channels})`;
+}
+
+function toHsl(color: Rgba): string {
+    const [r, g, b] = [color.r, color.g, color.b].map(c => clamp(c));
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const l = (max + min) / 2;
+    const d = max - min;
+    const s = d === 0 ? 0 : d / (1 - Math.abs(2 * l - 1));
+    const h = d === 0 ? 0
+        : max === r ? 60 * (((g - b) / d + 6) % 6)
+        : max === g ? 60 * ((b - r) / d + 2)
+        : 60 * ((r - g) / d + 4);
+    const parts = `${angle(h, 1)}, ${decimal(s * 100, 1)}%, ${decimal(l * 100, 1)}%`;
+    return color.alpha < 1 ? `hsla(${parts}${alphaSuffix(color, ", ")})` : `hsl(${parts})`;
+}
+
+/** `oklch()` always takes the space-separated syntax; it has no legacy form. */
+function toOklch(color: Rgba): string {
+    const [lr, lg, lb] = [color.r, color.g, color.b].map(toLinear);
+    const l_ = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+    const m_ = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+    const s_ = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+    const l = 0.2104542553 * l_ + 0.7936177850 * m_ - 0.0040720468 * s_;
+    const a = 1.9779984951 * l_ - 2.4285922050 * m_ + 0.4505937099 * s_;
+    const b = 0.0259040371 * l_ + 0.7827717662 * m_ - 0.8086757660 * s_;
+    const c = Math.hypot(a, b);
+    // A grey's hue is noise from rounding in the matrices, so it is written as 0.
+    const h = c < 0.0002 ? 0 : ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360;
+    return `oklch(${decimal(l * 100, 2)}% ${decimal(c < 0.0002 ? 0 : c, 4)} ${angle(h, 2)}${alphaSuffix(color, " / ")})`;
+}
+
+/** Converts a colour in any notation to `to`. */
+export function convertColor(text: string, to: ColorNotation, shortHex: boolean): string {
+    const color = parseColor(text);
+    switch (to) {
+        case "hex":
+            return toHex(color, shortHex);
+        case "rgb":
+            return toRgb(color);
+        case "hsl":
+            return toHsl(color);
+        case "oklch":
+            return toOklch(color);
+    }
+}
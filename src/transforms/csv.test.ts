@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { TransformError } from "./shared.js";
+import { csvToJson, csvToMarkdown, detectDelimiter, jsonToCsv, parseDelimited } from "./csv.js";
+
+describe("parseDelimited", () => {
+    it("reads quoted fields with delimiters, quotes and line breaks in them", () => {
+        expect(parseDelimited('a,"b,c","say ""hi""","two\nlines"\r\n1,2,3,4\r\n', ",")).toEqual([
+            ["a", "b,c", 'say "hi"', "two\nlines"],
+            ["1", "2", "3", "4"],
+        ]);
+    });
+
+    it("keeps empty fields, including a last one", () => {
+        expect(parseDelimited("a,,b,\n,", ",")).toEqual([["a", "", "b", ""], ["", ""]]);
+    });
+
+    it("takes a quote inside an unquoted field literally", () => {
+        expect(parseDelimited('5" floppy,x', ",")).toEqual([['5" floppy', "x"]]);
+    });
+
+    it("skips blank lines", () => {
+        expect(parseDelimited("a,b\n\n1,2\n", ",")).toEqual([["a", "b"], ["1", "2"]]);
+    });
+
+    it("says where a quoted field is left open", () => {
+        expect(() => parseDelimited('a,b\n1,"2\n3', ",")).toThrow(/never closed at line 2, column 3/);
+    });
+
+    it("refuses text after a closing quote", () => {
+        expect(() => parseDelimited('"a"b,c', ",")).toThrow(/text follows a closing quote at line 1, column 4/);
+    });
+});
+
+describe("detectDelimiter", () => {
+    it("recognises each delimiter", () => {
+        expect(detectDelimiter("a\tb\n1\t2")).toBe("\t");
+        expect(detectDelimiter("a,b\n1,2")).toBe(",");
+        expect(detectDelimiter("a;b\n1,5;2,5")).toBe(";");
+        expect(detectDelimiter("a|b\n1|2")).toBe("|");
+    });
+
+    it("prefers tabs when cells also hold commas", () => {
+        expect(detectDelimiter("name\tcity\nSmith, J\tParis, FR")).toBe("\t");
+    });
+
+    it("ignores delimiters inside quotes", () => {
+        expect(detectDelimiter('"a;b",c\n"1;2",3')).toBe(",");
+    });
+});
+
+describe("csvToJson", () => {
+    it("keys each row by the header, typing only plain JSON numbers and booleans", () => {
+        const json = csvToJson("id\tzip\tactive\tnote\n1234567890123456789\t00123\ttrue\t\n", "  ");
+        expect(json).toBe([
+            "[",
+            "  {",
+            '    "id": 1234567890123456789,',
+            '    "zip": "00123",',
+            '    "active": true,',
+            '    "note": ""',
+            "  }",
+            "]",
+        ].join("\n"));
+    });
+
+    it("names blank and repeated headers apart", () => {
+        expect(JSON.parse(csvToJson("a,,a\n1,2,3", ""))).toEqual([{ a: 1, column2: 2, a_2: 3 }]);
+    });
+
+    it("fills out short rows and refuses long ones", () => {
+        expect(JSON.parse(csvToJson("a,b\n1", ""))).toEqual([{ a: 1, b: "" }]);
+        expect(() => csvToJson("a,b\n1,2\n1,2,3", "")).toThrow(/record 3 has 3 fields, but the header has 2/);
+    });
+
+    it("refuses empty text", () => {
+        expect(() => csvToJson("", "")).toThrow(TransformError);
+    });
+});
+
+describe("csvToMarkdown", () => {
+    it("pads the columns and right-aligns numbers", () => {
+        expect(csvToMarkdown("Item\tQty\nApples\t12\nPears\t3")).toBe([
+            "| Item   | Qty |",
+            "| ------ | --: |",
+            "| Apples |  12 |",
+            "| Pears  |   3 |",
+        ].join("\n"));
+    });
+
+    it("escapes pipes and turns line breaks into <br>", () => {
+        expect(csvToMarkdown('a,b\n"x|y","1\n2"')).toBe([
+            "| a    | b      |",
+            "| ---- | ------ |",
+            "| x\\|y | 1<br>2 |",
+        ].join("\n"));
+    });
+});
+
+describe("jsonToCsv", () => {
+    it("writes a column for every key, quoting only where needed", () => {
+        const json = '[{"name": "Smith, J", "age": 41}, {"name": "O\\"Neil", "tags": ["a"], "age": null}]';
+        expect(jsonToCsv(json)).toBe([
+            "name,age,tags",
+            '"Smith, J",41,',
+            '"O""Neil",,"[""a""]"',
+        ].join("\n"));
+    });
+
+    it("round-trips with csvToJson", () => {
+        const csv = 'a,b\n1,"x\ny"\n2,plain';
+        expect(jsonToCsv(csvToJson(csv, "  "))).toBe(csv);
+    });
+
+    it("refuses JSON that is not an array of objects", () => {
+        expect(() => jsonToCsv('{"a": 1}')).toThrow(/the JSON is an object/);
+        expect(() => jsonToCsv("[{}, 2]")).toThrow(/item 2 is a number/);
+        expect(() => jsonToCsv("[]")).toThrow(/empty/);
+        expect(() => jsonToCsv("[")).toThrow(TransformError);
+    });
+});
@@ -0,0 +1,242 @@
+import { describeJson, type JsonNode, parseJson, stringifyJson } from "./json.js";
+import { lineAndColumn, TransformError } from "./shared.js";
+
+/**
+ * CSV and TSV: to a JSON array of objects, to a Markdown table, and a JSON array back to CSV.
+ *
+ * The parser follows RFC 4180, which is also what spreadsheets put on the clipboard: a field may
+ * be quoted, a quoted field may hold the delimiter, a doubled quote and line breaks, and a quote
+ * inside an unquoted field is just a character. The delimiter is worked out from the text, since
+ * a range copied from a spreadsheet is tab-separated and a file is usually comma-separated, and
+ * nobody should need a different key for each.
+ */
+
+/** Tried in this order, so tab-separated text from a spreadsheet is never misread for a comma in a cell. */
+const DELIMITERS = ["\t", ",", ";", "|"] as const;
+
+/** How many records the delimiter guess looks at. Enough to see a pattern; a long file needs no more. */
+const SAMPLE_RECORDS = 20;
+
+/**
+ * Splits delimited text into records of fields. A final line break ends the last record rather
+ * than starting an empty one.
+ *
+ * @throws TransformError on a quote left open, or text between a closing quote and the next
+ * delimiter, with the line and column.
+ */
+export function parseDelimited(text: string, delimiter: string, limit = Infinity): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let at = 0;
+    const fail = (offset: number, reason: string): never => {
+        const { line, column } = lineAndColumn(text, offset);
+        throw new TransformError(`Not CSV: ${reason} at line ${line}, column ${column}`, `Line ${line}\nCol ${column}`);
+    };
+    while (at < text.length && records.length < limit) {
+        let field = "";
+        if (text[at] === "\"") {
+            const open = at++;
+            for (;;) {
+                const close = text.indexOf("\"", at);
+                if (close === -1) fail(open, "a quoted field is never closed");
+                field += text.slice(at, close);
+                at = close + 1;
+                if (text[at] !== "\"") break;
+                field += "\"";
+                at++;
+            }
+            if (at < text.length && text[at] !== delimiter && text[at] !== "\n" && text[at] !== "\r") {
+                fail(at, "text follows a closing quote");
+            }
+        } else {
+            const end = text.slice(at).search(delimiter === "\t" ? /[\t\r\n]/ : new RegExp(`[${escapeClass(delimiter)}\\r\\n]`));
+            const stop = end === -1 ? text.length : at + end;
+            field = text.slice(at, stop);
+            at = stop;
+        }
+        record.push(field);
+        if (text[at] === delimiter) {
+            at++;
+            // A delimiter at the very end still separates off one last, empty field.
+            if (at === text.length) record.push("");
+            continue;
+        }
+        // A blank line holds no record at all, rather than one with a single empty field.
+        if (record.length > 1 || record[0] !== "") records.push(record);
+        record = [];
+        at += text.startsWith("\r\n", at) ? 2 : 1;
+    }
+    if (record.length > 0) records.push(record);
+    return records;
+}
+
+function escapeClass(char: string): string {
+    return /[\\\]^-]/.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * The delimiter the text uses: the first candidate that splits the first records into the same
+ * number of fields, more than one. Text that none of them splits consistently is read with the
+ * candidate giving the widest first record, and failing that as a single comma-separated column.
+ */
+export function detectDelimiter(text: string): string {
+    let widest: string = ",";
+    let widestCount = 1;
+    for (const delimiter of DELIMITERS) {
+        let records: string[][];
+        try {
+            records = parseDelimited(text, delimiter, SAMPLE_RECORDS);
+        } catch {
+            continue;
+        }
+        const first = records[0]?.length ?? 0;
+        if (first > 1 && records.every(r => r.length === first)) return delimiter;
+        if (first > widestCount) {
+            widest = delimiter;
+            widestCount = first;
+        }
+    }
+    return widest;
+}
+
+/**
+ * The records of `text`, every one as wide as the header: short records, as spreadsheets write
+ * when trailing cells are empty, are filled out with empty fields.
+ *
+ * @throws TransformError when there is no header, or a record has more fields than it.
+ */
+function table(text: string, delimiter = detectDelimiter(text)): { header: string[]; rows: string[][] } {
+    const records = parseDelimited(text, delimiter);
+    if (records.length === 0) {
+        throw new TransformError("Not CSV: there is no header row", "Not\nCSV");
+    }
+    const [header, ...rows] = records;
+    rows.forEach((row, i) => {
+        if (row.length > header.length) {
+            throw new TransformError(
+                `Not CSV: record ${i + 2} has ${row.length} fields, but the header has ${header.length}`,
+                `Row ${i + 2}\nToo Wide`
+            );
+        }
+        while (row.length < header.length) row.push("");
+    });
+    return { header, rows };
+}
+
+/** Header names as JSON keys: a blank one is named for its column, and a repeat gets a number. */
+function keys(header: readonly string[]): string[] {
+    const seen = new Map<string, number>();
+    return header.map((name, i) => {
+        const base = name.trim() === "" ? `column${i + 1}` : name;
+        const count = (seen.get(base) ?? 0) + 1;
+        seen.set(base, count);
+        return count === 1 ? base : `${base}_${count}`;
+    });
+}
+
+const JSON_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+/**
+ * A field as a JSON value. Only text that is already a JSON number or `true`/`false` changes type,
+ * so `00123`, `1,5` and `+1` stay strings, and a number keeps its exact digits.
+ */
+function fieldNode(field: string): JsonNode {
+    if (JSON_NUMBER.test(field)) return { type: "number", raw: field };
+    if (field === "true" || field === "false") return { type: "literal", value: field === "true" };
+    return { type: "string", value: field };
+}
+
+/** A JSON array with one object per record, keyed by the header. */
+export function csvToJson(text: string, indent: string): string {
+    const { header, rows } = table(text);
+    const names = keys(header);
+    const node: JsonNode = {
+        type: "array",
+        items: rows.map(row => ({
+            type: "object",
+            entries: row.map((field, i): [string, JsonNode] => [names[i], fieldNode(field)]),
+        })),
+    };
+    return stringifyJson(node, indent);
+}
+
+/** A field as Markdown table cell text: pipes escaped, line breaks as `<br>`, which GFM renders. */
+function cell(field: string): string {
+    return field.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+const NUMERIC = /^(?=.*\d)[-+]?(?:\d[\d,]*)?(?:\.\d+)?%?$/;
+
+/**
+ * A GitHub-flavoured Markdown table, padded so the columns line up in plain text too. A column
+ * holding only numbers is right-aligned, as a spreadsheet shows it.
+ *
+ * The delimiter is worked out from the text unless one is given.
+ */
+export function csvToMarkdown(text: string, delimiter?: string): string {
+    const { header, rows } = table(text, delimiter);
+    const cells = [header, ...rows].map(row => row.map(cell));
+    const width = (s: string) => Array.from(s).length;
+    const widths = header.map((_, c) => Math.max(3, ...cells.map(row => width(row[c]))));
+    const right = header.map((_, c) =>
+        rows.length > 0 && rows.every(row => row[c] === "" || NUMERIC.test(row[c])) && rows.some(row => row[c] !== ""));
+    const line = (row: string[]) => `| ${row.map((s, c) => {
+        const pad = " ".repeat(widths[c] - width(s));
+        return right[c] ? pad + s : s + pad;
+    }).join(" | ")} |`;
+    const rule = `| ${widths.map((w, c) => (right[c] ? `${"-".repeat(w - 1)}:` : "-".repeat(w))).join(" | ")} |`;
+    return [line(cells[0]), rule, ...cells.slice(1).map(line)].join("\n");
+}
+
+/** A JSON value as one CSV field's text; `null` is an empty field, and nesting stays JSON. */
+function fieldText(node: JsonNode): string {
+    switch (node.type) {
+        case "string":
+            return node.value;
+        case "number":
+            return node.raw;
+        case "literal":
+            return node.value === null ? "" : String(node.value);
+        default:
+            return stringifyJson(node, "");
+    }
+}
+
+/** Quotes a field only when it must be, as spreadsheets do when they write CSV. */
+function quote(field: string): string {
+    return /[",\r\n]|^\s|\s$/.test(field) ? `"${field.replace(/"/g, "\"\"")}"` : field;
+}
+
+/**
+ * CSV from a JSON array of objects. The columns are every key that appears, in the order they
+ * first appear, so objects missing a key still line up, with an empty field there.
+ *
+ * @throws TransformError when the JSON is invalid, or is not an array of objects.
+ */
+export function jsonToCsv(text: string): string {
+    const root = parseJson(text);
+    if (root.type !== "array") {
+        throw new TransformError(`Not a JSON array of objects: the JSON is ${describeJson(root)}`, "Not\nArray");
+    }
+    if (root.items.length === 0) {
+        throw new TransformError("Not a JSON array of objects: the array is empty, so there are no columns", "Empty\nArray");
+    }
+    const columns: string[] = [];
+    const rows = root.items.map((item, i) => {
+        if (item.type !== "object") {
+            throw new TransformError(
+                `Not a JSON array of objects: item ${i + 1} is ${describeJson(item)}`,
+                `Item ${i + 1}\nNot Object`
+            );
+        }
+        const fields = new Map<string, string>();
+        for (const [key, value] of item.entries) {
+            if (!columns.includes(key)) columns.push(key);
+            fields.set(key, fieldText(value));
+        }
+        return fields;
+    });
+    return [columns, ...rows.map(fields => columns.map(c => fields.get(c) ?? ""))]
+        .map(row => row.map(quote).join(","))
+        .join("\n");
+}
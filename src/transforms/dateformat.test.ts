@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { applyTransform, isGenerator } from "../utils.js";
+import { applyDateOffset, formatDate } from "./dateformat.js";
+
+// Sunday 2026-10-18T12:03:04.005Z
+const AT = Date.UTC(2026, 9, 18, 12, 3, 4, 5);
+const utc = (epochMs: number, format: string) => formatDate(epochMs, format, "UTC");
+
+describe("formatDate", () => {
+    it("writes the numeric tokens", () => {
+        expect(utc(AT, "DD/MM/YYYY HH:mm")).toBe("18/10/2026 12:03");
+        expect(utc(AT, "D.M.YY H:m:s.SSS")).toBe("18.10.26 12:3:4.005");
+        expect(utc(AT, "YYYY-MM-DD[T]HH:mm:ssZ")).toBe("2026-10-18T12:03:04+00:00");
+    });
+
+    it("writes names, weekday numbers and day of year", () => {
+        expect(utc(AT, "dddd, D MMMM YYYY")).toBe("Sunday, 18 October 2026");
+        expect(utc(AT, "ddd D MMM")).toBe("Sun 18 Oct");
+        expect(utc(AT, "E DDDD")).toBe("7 291");
+        expect(utc(Date.UTC(2026, 0, 5), "E DDDD")).toBe("1 005");
+    });
+
+    it("writes twelve-hour times", () => {
+        expect(utc(AT, "h:mm A")).toBe("12:03 PM");
+        expect(utc(Date.UTC(2026, 0, 1, 0, 5), "hh:mm a")).toBe("12:05 am");
+        expect(utc(Date.UTC(2026, 0, 1, 13), "h a")).toBe("1 pm");
+    });
+
+    it("writes the ISO week and the year it belongs to", () => {
+        expect(utc(AT, "GGGG-[W]WW")).toBe("2026-W42");
+        // 1 January 2027 is a Friday, so it belongs to the last week of 2026.
+        expect(utc(Date.UTC(2027, 0, 1), "GGGG-[W]WW YYYY")).toBe("2026-W53 2027");
+        // 29 December 2025 is a Monday in the first week of 2026.
+        expect(utc(Date.UTC(2025, 11, 29), "GGGG-[W]W")).toBe("2026-W1");
+    });
+
+    it("keeps bracketed and non-token text", () => {
+        expect(utc(AT, "[Week] W [at] HH:mm — [done]")).toBe("Week 42 at 12:03 — done");
+    });
+
+    it("writes Unix time", () => {
+        expect(utc(AT, "X x")).toBe(`${Math.floor(AT / 1000)} ${AT}`);
+    });
+
+    it("formats in the zone, with its offset", () => {
+        expect(formatDate(AT, "YYYY-MM-DD HH:mm Z ZZ", "Asia/Kolkata")).toBe("2026-10-18 17:33 +05:30 +0530");
+        expect(formatDate(AT, "HH:mm Z", "America/Los_Angeles")).toBe("05:03 -07:00");
+    });
+});
+
+describe("applyDateOffset", () => {
+    const shifted = (offset: string, zone = "UTC") => utc(applyDateOffset(AT, offset, zone), "YYYY-MM-DD HH:mm ddd");
+
+    it("adds and subtracts units", () => {
+        expect(shifted("+7d")).toBe("2026-10-25 12:03 Sun");
+        expect(shifted("-1h")).toBe("2026-10-18 11:03 Sun");
+        expect(shifted("+2 weeks")).toBe("2026-11-01 12:03 Sun");
+        expect(shifted("+1y -3 days")).toBe("2027-10-15 12:03 Fri");
+        expect(shifted("+90 minutes")).toBe("2026-10-18 13:33 Sun");
+    });
+
+    it("carries a sign on to the terms after it", () => {
+        expect(shifted("-1h 30m")).toBe("2026-10-18 10:33 Sun");
+    });
+
+    it("clamps to the end of a shorter month", () => {
+        const jan31 = Date.UTC(2026, 0, 31, 9);
+        expect(utc(applyDateOffset(jan31, "+1mo", "UTC"), "YYYY-MM-DD")).toBe("2026-02-28");
+        expect(utc(applyDateOffset(Date.UTC(2028, 1, 29), "+1y", "UTC"), "YYYY-MM-DD")).toBe("2029-02-28");
+    });
+
+    it("finds the next and last weekday, never today", () => {
+        expect(shifted("next Monday")).toBe("2026-10-19 12:03 Mon");
+        expect(shifted("next sunday")).toBe("2026-10-25 12:03 Sun");
+        expect(shifted("last Fri")).toBe("2026-10-16 12:03 Fri");
+        expect(shifted("next thurs +1h")).toBe("2026-10-22 13:03 Thu");
+    });
+
+    it("reads today, tomorrow and yesterday", () => {
+        expect(shifted("tomorrow")).toBe("2026-10-19 12:03 Mon");
+        expect(shifted("yesterday")).toBe("2026-10-17 12:03 Sat");
+        expect(shifted("")).toBe("2026-10-18 12:03 Sun");
+    });
+
+    it("keeps the time of day across a daylight-saving change", () => {
+        // Berlin leaves summer time on 25 October 2026.
+        const at = applyDateOffset(AT, "+7d", "Europe/Berlin");
+        expect(formatDate(at, "YYYY-MM-DD HH:mm Z", "Europe/Berlin")).toBe("2026-10-25 14:03 +01:00");
+    });
+
+    it.each(["+7", "soon", "next month", "+3 fortnights", "+1 constructor"])("refuses %j", offset => {
+        expect(() => applyDateOffset(AT, offset, "UTC")).toThrow(/^Cannot read/);
+    });
+});
+
+describe("datecustom", () => {
+    afterEach(() => vi.useRealTimers());
+
+    it("is a generator", () => expect(isGenerator("datecustom")).toBe(true));
+
+    it("formats now with the key's settings", () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(AT);
+        expect(applyTransform("", "datecustom", {
+            dateFormat: "ddd DD/MM/YYYY HH:mm", dateOffset: "next Monday", timeZone: "Europe/Berlin",
+        })).toBe("Mon 19/10/2026 14:03");
+    });
+
+    it("falls back to the default format", () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(AT);
+        expect(applyTransform("", "datecustom", { dateFormat: " ", timeZone: "UTC" })).toBe("2026-10-18 12:03");
+    });
+});
@@ -0,0 +1,167 @@
+import { TransformError } from "./shared.js";
+import { pad2, wallTime, wallTimeToEpoch, zoneOffsetMs, type WallTime } from "./time.js";
+
+/**
+ * The configurable date generator: "now", moved by an offset such as `+7d` or `next Monday`, then
+ * written out with format tokens such as `DD/MM/YYYY HH:mm`, in any time zone.
+ *
+ * The tokens are the Moment/Day.js ones most tools document, so a format copied from a logging
+ * config or a changelog template works unchanged. Names are English: the formats this exists for
+ * are read by tools, not people, and a tool expects `Mon`, not `lun.`
+ */
+
+/** Used when the format setting is blank. */
+export const DEFAULT_DATE_FORMAT = "YYYY-MM-DD HH:mm";
+
+const DAY_MS = 86_400_000;
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTHS = [
+    "January", "February", "March", "April", "May", "June",
+    "July", "August", "September", "October", "November", "December",
+];
+
+/** Longest first, so `MMMM` is never read as `MM` twice. `[…]` is literal text. */
+const TOKEN = /\[([^\]]*)\]|YYYY|YY|GGGG|MMMM|MMM|MM|M|DDDD|DD|D|dddd|ddd|E|WW|W|HH|H|hh|h|mm|m|ss|s|SSS|A|a|ZZ|Z|X|x/g;
+
+/** The ISO 8601 week and the year it belongs to, which differs from the calendar year around New Year. */
+function isoWeek(w: WallTime): { week: number; year: number } {
+    const date = Date.UTC(w.year, w.month - 1, w.day);
+    const mondayBased = (new Date(date).getUTCDay() + 6) % 7;
+    // The week belongs to whichever year its Thursday falls in.
+    const thursday = date + (3 - mondayBased) * DAY_MS;
+    const year = new Date(thursday).getUTCFullYear();
+    return { week: 1 + Math.floor((thursday - Date.UTC(year, 0, 1)) / (7 * DAY_MS)), year };
+}
+
+function offsetText(offsetMs: number, separator: string): string {
+    const minutes = Math.round(offsetMs / 60_000);
+    const abs = Math.abs(minutes);
+    return `${minutes < 0 ? "-" : "+"}${pad2(Math.floor(abs / 60))}${separator}${pad2(abs % 60)}`;
+}
+
+/** Writes an instant in `zone` using the format tokens. Text that is not a token is kept as is. */
+export function formatDate(epochMs: number, format: string, zone: string | undefined): string {
+    const w = wallTime(epochMs, zone);
+    const ms = ((epochMs % 1000) + 1000) % 1000;
+    const weekday = new Date(Date.UTC(w.year, w.month - 1, w.day)).getUTCDay();
+    const hour12 = w.hour % 12 || 12;
+    return format.replace(TOKEN, (token, literal: string | undefined) => {
+        if (literal !== undefined) return literal;
+        switch (token) {
+            case "YYYY": return String(w.year).padStart(4, "0");
+            case "YY": return pad2(w.year % 100);
+            case "GGGG": return String(isoWeek(w).year);
+            case "MMMM": return MONTHS[w.month - 1];
+            case "MMM": return MONTHS[w.month - 1].slice(0, 3);
+            case "MM": return pad2(w.month);
+            case "M": return String(w.month);
+            case "DDDD": {
+                const dayOfYear = 1 + (Date.UTC(w.year, w.month - 1, w.day) - Date.UTC(w.year, 0, 1)) / DAY_MS;
+                return String(dayOfYear).padStart(3, "0");
+            }
+            case "DD": return pad2(w.day);
+            case "D": return String(w.day);
+            case "dddd": return WEEKDAYS[weekday];
+            case "ddd": return WEEKDAYS[weekday].slice(0, 3);
+            case "E": return String(weekday || 7);
+            case "WW": return pad2(isoWeek(w).week);
+            case "W": return String(isoWeek(w).week);
+            case "HH": return pad2(w.hour);
+            case "H": return String(w.hour);
+            case "hh": return pad2(hour12);
+            case "h": return String(hour12);
+            case "mm": return pad2(w.minute);
+            case "m": return String(w.minute);
+            case "ss": return pad2(w.second);
+            case "s": return String(w.second);
+            case "SSS": return String(ms).padStart(3, "0");
+            case "A": return w.hour < 12 ? "AM" : "PM";
+            case "a": return w.hour < 12 ? "am" : "pm";
+            case "ZZ": return offsetText(zoneOffsetMs(epochMs, zone), "");
+            case "Z": return offsetText(zoneOffsetMs(epochMs, zone), ":");
+            case "X": return String(Math.floor(epochMs / 1000));
+            case "x": return String(epochMs);
+            default: return token;
+        }
+    });
+}
+
+/** Offset units, by every spelling accepted. Minutes are `m` or `min`; months are `mo`. */
+const UNITS: Record<string, "year" | "month" | "week" | "day" | "hour" | "minute" | "second"> = {
+    y: "year", yr: "year", yrs: "year", year: "year", years: "year",
+    mo: "month", month: "month", months: "month",
+    w: "week", wk: "week", wks: "week", week: "week", weeks: "week",
+    d: "day", day: "day", days: "day",
+    h: "hour", hr: "hour", hrs: "hour", hour: "hour", hours: "hour",
+    m: "minute", min: "minute", mins: "minute", minute: "minute", minutes: "minute",
+    s: "second", sec: "second", secs: "second", second: "second", seconds: "second",
+};
+
+const DURATION_MS = { hour: 3_600_000, minute: 60_000, second: 1000 } as const;
+
+/** Moves the wall-clock date by whole days, months or years, keeping the time of day. */
+function shiftCalendar(epochMs: number, zone: string | undefined, unit: "year" | "month" | "day", n: number): number {
+    const w = wallTime(epochMs, zone);
+    const ms = ((epochMs % 1000) + 1000) % 1000;
+    if (unit === "day") {
+        const d = new Date(Date.UTC(w.year, w.month - 1, w.day + n));
+        return wallTimeToEpoch({ ...w, year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() }, ms, zone);
+    }
+    // 31 January plus a month is the last day of February, as in every calendar app.
+    const months = w.year * 12 + (w.month - 1) + (unit === "year" ? 12 * n : n);
+    const year = Math.floor(months / 12);
+    const month = (months % 12) + 1;
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return wallTimeToEpoch({ ...w, year, month, day: Math.min(w.day, lastDay) }, ms, zone);
+}
+
+/**
+ * Applies an offset such as `+7d`, `-1h 30m`, `+2 weeks`, `tomorrow` or `next Monday` to an
+ * instant, term by term from left to right. A term without a sign takes the one before it, so
+ * `-1h 30m` is ninety minutes ago. Days and longer move the calendar date and keep the time of day
+ * across a daylight-saving change; hours and shorter are exact durations.
+ *
+ * @throws TransformError naming the first term it cannot read.
+ */
+export function applyDateOffset(epochMs: number, offset: string, zone: string | undefined): number {
+    const terms = offset.trim().toLowerCase().match(/(?:next|last)\s+\w+|[+-]?\s*\d+\s*[a-z]+|\S+/g) ?? [];
+    let at = epochMs;
+    let sign = 1;
+    for (const term of terms) {
+        const relative = /^(next|last)\s+(\w+)$/.exec(term);
+        // Any abbreviation of three letters or more: "mon", "tues", "thurs".
+        const weekday = relative && relative[2].length >= 3
+            ? WEEKDAYS.findIndex(d => d.toLowerCase().startsWith(relative[2]))
+            : -1;
+        if (relative && weekday !== -1) {
+            const w = wallTime(at, zone);
+            const today = new Date(Date.UTC(w.year, w.month - 1, w.day)).getUTCDay();
+            // Strictly after or before today: "next Monday" said on a Monday means a week on.
+            const days = relative[1] === "next"
+                ? ((weekday - today + 7) % 7) || 7
+                : -(((today - weekday + 7) % 7) || 7);
+            at = shiftCalendar(at, zone, "day", days);
+            continue;
+        }
+        if (term === "today" || term === "now") continue;
+        if (term === "tomorrow" || term === "yesterday") {
+            at = shiftCalendar(at, zone, "day", term === "tomorrow" ? 1 : -1);
+            continue;
+        }
+        const m = /^([+-]?)\s*(\d+)\s*([a-z]+)$/.exec(term);
+        const unit = m && Object.hasOwn(UNITS, m[3]) ? UNITS[m[3]] : undefined;
+        if (!m || !unit) {
+            throw new TransformError(
+                `Cannot read "${term}" in the offset; use terms such as +7d, -1h, +2 weeks or next Monday`,
+                "Bad\nOffset"
+            );
+        }
+        if (m[1]) sign = m[1] === "-" ? -1 : 1;
+        const n = sign * Number(m[2]);
+        if (unit === "hour" || unit === "minute" || unit === "second") at += n * DURATION_MS[unit];
+        else if (unit === "week") at = shiftCalendar(at, zone, "day", 7 * n);
+        else at = shiftCalendar(at, zone, unit, n);
+    }
+    return at;
+}
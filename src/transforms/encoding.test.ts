@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { applyTransform, type TransformType } from "../utils.js";
+import { base32Decode, base64Decode, binaryDecode, hexDecode, qpDecode, qpEncode } from "./encoding.js";
+
+const SAMPLES = ["hello", "", "a", "ab", "abc", "abcd", "abcde", "naïve café — 日本 🙂", "line one\r\nline two\n\ttabbed  "];
+
+const PAIRS: [TransformType, TransformType][] = [
+    ["base64encode", "base64decode"],
+    ["base64urlencode", "base64urldecode"],
+    ["hexencode", "hexdecode"],
+    ["base32encode", "base32decode"],
+    ["binaryencode", "binarydecode"],
+    ["qpencode", "qpdecode"],
+];
+
+describe("encodings", () => {
+    describe.each(PAIRS)("%s and %s", (encode, decode) => {
+        it.each(SAMPLES.filter(s => s !== "" || encode !== "binaryencode"))("round-trips %j", text => {
+            expect(applyTransform(applyTransform(text, encode), decode)).toBe(text);
+        });
+    });
+
+    it("encodes the UTF-8 bytes", () => {
+        expect(applyTransform("hé", "hexencode")).toBe("68c3a9");
+        expect(applyTransform("foobar", "base32encode")).toBe("MZXW6YTBOI======");
+        expect(applyTransform("hi", "binaryencode")).toBe("01101000 01101001");
+        expect(applyTransform("ûÿ", "base64urlencode")).toBe("w7vDvw");
+    });
+
+    describe("hex", () => {
+        it("reads either case, a 0x prefix, and spaced or colon-separated bytes", () => {
+            expect(hexDecode("0x6869")).toBe("hi");
+            expect(hexDecode("68 69")).toBe("hi");
+            expect(hexDecode("68:6A")).toBe("hj");
+        });
+
+        it("names the first character that is not a digit", () => {
+            expect(() => hexDecode("68\n6g")).toThrow('Not hex: "g" at line 2, column 2 is not a hex character');
+        });
+
+        it("refuses an odd number of digits", () => {
+            expect(() => hexDecode("686")).toThrow(/3 digits is an odd number/);
+        });
+    });
+
+    describe("base32", () => {
+        it("reads lowercase and unpadded secrets", () => {
+            expect(base32Decode("mzxw6ytboi")).toBe("foobar");
+            expect(base32Decode("MZXW 6YTB OI== ====")).toBe("foobar");
+        });
+
+        it("refuses characters outside the alphabet", () => {
+            expect(() => base32Decode("MZXW1")).toThrow(/"1" at line 1, column 5/);
+        });
+
+        it("refuses a length no bytes encode to", () => {
+            expect(() => base32Decode("MZX")).toThrow(/cut short/);
+        });
+
+        it("refuses padding in the middle or of the wrong length", () => {
+            expect(() => base32Decode("MZ==XW6Y")).toThrow(/padding can only come at the end/);
+            expect(() => base32Decode("MZXW6YTBOI==")).toThrow(/not a multiple of 8/);
+        });
+
+        it("refuses stray bits after the last byte", () => {
+            expect(() => base32Decode("MZXW6YTBOJ")).toThrow(/bits set past the final byte/);
+        });
+    });
+
+    describe("base64", () => {
+        it("reads wrapped and unpadded input", () => {
+            expect(base64Decode("aGVs\nbG8=", "base64")).toBe("hello");
+            expect(base64Decode("aGVsbG8", "base64")).toBe("hello");
+        });
+
+        it("names the first character outside the alphabet", () => {
+            expect(() => applyTransform("aGVs*bG8=", "base64decode")).toThrow('Not base64: "*" at line 1, column 5 is not a base64 character');
+        });
+
+        it("points out the other alphabet", () => {
+            expect(() => base64Decode("w7vDvw-_", "base64")).toThrow(/looks like base64url/);
+            expect(() => base64Decode("w7vDvw+/", "base64url")).toThrow(/looks like base64$/);
+        });
+
+        it("refuses input cut short", () => {
+            expect(() => base64Decode("aGVsb", "base64")).toThrow(/cut short/);
+            expect(() => base64Decode("aGVsbG8==", "base64")).toThrow(/not a multiple of 4/);
+            expect(() => base64Decode("aG=VsbG8", "base64")).toThrow(/padding can only come at the end/);
+        });
+
+        it("refuses stray bits after the last byte", () => {
+            expect(() => base64Decode("aGVsbG9=", "base64")).toThrow(/bits set past the final byte/);
+        });
+
+        it("refuses bytes that are not text", () => {
+            const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).toString("base64");
+            expect(() => applyTransform(png, "base64decode")).toThrow("That base64 decodes to 8 bytes that are not UTF-8 text");
+        });
+    });
+
+    describe("binary", () => {
+        it("reads bits however they are grouped", () => {
+            expect(binaryDecode("0110100001101001")).toBe("hi");
+        });
+
+        it("refuses other characters and partial bytes", () => {
+            expect(() => binaryDecode("0110 2000")).toThrow(/"2" at line 1, column 6/);
+            expect(() => binaryDecode("0110100")).toThrow("Not binary: 7 bits is not a whole number of bytes");
+        });
+    });
+
+    describe("quoted-printable", () => {
+        it("escapes =, non-ASCII and whitespace at the end of a line", () => {
+            expect(qpEncode("a=b café \nnext\t")).toBe("a=3Db caf=C3=A9=20\nnext=09");
+        });
+
+        it("wraps long lines with soft breaks that never split an escape", () => {
+            const encoded = qpEncode("é".repeat(40));
+            const lines = encoded.split("\n");
+            for (const line of lines) expect(line.length).toBeLessThanOrEqual(76);
+            for (const line of lines.slice(0, -1)) expect(line).toMatch(/^(=[0-9A-F]{2})+=$/);
+            expect(qpDecode(encoded)).toBe("é".repeat(40));
+        });
+
+        it("keeps CRLF line breaks", () => {
+            expect(qpEncode(`${"x".repeat(80)}\r\ny`)).toBe(`${"x".repeat(75)}=\r\nxxxxx\r\ny`);
+        });
+
+        it("joins soft breaks, drops transport padding and reads lowercase escapes", () => {
+            expect(qpDecode("caf=c3=a9 =  \r\nau lait  \nok")).toBe("café au lait\nok");
+        });
+
+        it("refuses a bare =", () => {
+            expect(() => qpDecode("one\nt=wo")).toThrow('Not quoted-printable: "=" at line 2, column 2 is not followed by two hex digits');
+        });
+    });
+});
@@ -0,0 +1,248 @@
+import { isUtf8 } from "node:buffer";
+import { lineAndColumn, TransformError } from "./shared.js";
+
+/**
+ * Byte encodings of text: hex, base32, base64 and base64url, binary and quoted-printable. Each
+ * encodes the text's UTF-8 bytes, and each decoder is strict, refusing with the reason rather than
+ * guessing. Node's own decoders skip characters they do not recognise and stop at the first
+ * padding, so a truncated or mistyped value decodes to something plausible and wrong, and the
+ * mistake surfaces far from where it was made.
+ *
+ * Whitespace is ignored everywhere, since encoded values are routinely wrapped across lines.
+ */
+
+/**
+ * The decoded bytes as text. A decoder's input can be perfectly valid and still describe bytes that
+ * are not text — an image, a key — and typing those out would only produce replacement characters.
+ */
+function utf8(bytes: Buffer, encoding: string): string {
+    if (!isUtf8(bytes)) {
+        throw new TransformError(
+            `That ${encoding} decodes to ${bytes.length} bytes that are not UTF-8 text`,
+            "Not\nText"
+        );
+    }
+    return bytes.toString("utf8");
+}
+
+/** Refuses the first character `invalid` matches, naming where it is. */
+function rejectInvalid(text: string, invalid: RegExp, encoding: string, keyTitle: string): void {
+    const at = text.search(invalid);
+    if (at === -1) return;
+    const { line, column } = lineAndColumn(text, at);
+    // The whole character, so an emoji is named as one rather than as half a surrogate pair.
+    const [char = ""] = text.slice(at);
+    throw new TransformError(
+        `Not ${encoding}: ${JSON.stringify(char)} at line ${line}, column ${column} is not a ${encoding} character`,
+        keyTitle
+    );
+}
+
+export function hexEncode(text: string): string {
+    return Buffer.from(text, "utf8").toString("hex");
+}
+
+/**
+ * Reads hex in either case, with an optional `0x` and with spaces or colons between bytes, as
+ * hex dumps and certificate fingerprints are written.
+ *
+ * @throws TransformError on a character that is not a hex digit, or an odd number of digits.
+ */
+export function hexDecode(text: string): string {
+    // Blank out the prefix rather than cut it, so positions in the message stay true.
+    const body = text.replace(/^(\s*)0x/i, "$1  ");
+    rejectInvalid(body, /[^0-9a-fA-F\s:]/, "hex", "Not\nHex");
+    const digits = body.replace(/[\s:]/g, "");
+    if (digits.length % 2 !== 0) {
+        throw new TransformError(`Not hex: ${digits.length} digits is an odd number, so the last byte is incomplete`, "Not\nHex");
+    }
+    return utf8(Buffer.from(digits, "hex"), "hex");
+}
+
+/** RFC 4648 base32, as TOTP secrets use. */
+const BASE32 = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(text: string): string {
+    let out = "";
+    let bits = 0;
+    let value = 0;
+    for (const byte of Buffer.from(text, "utf8")) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            out += BASE32[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) out += BASE32[(value << (5 - bits)) & 31];
+    return out + "=".repeat((8 - (out.length % 8)) % 8);
+}
+
+/**
+ * Reads base32 in either case, padded or not — authenticator apps hand out secrets both ways.
+ *
+ * @throws TransformError on a character outside the alphabet, misplaced padding, or a length that
+ * no whole number of bytes encodes to.
+ */
+export function base32Decode(text: string): string {
+    rejectInvalid(text, /[^A-Za-z2-7=\s]/, "base32", "Not\nBase32");
+    const compact = text.replace(/\s/g, "").toUpperCase();
+    const data = compact.replace(/=+$/, "");
+    if (data.includes("=")) {
+        throw new TransformError("Not base32: padding can only come at the end", "Not\nBase32");
+    }
+    if (data.length !== compact.length && compact.length % 8 !== 0) {
+        throw new TransformError(`Not base32: padded to ${compact.length} characters, not a multiple of 8`, "Not\nBase32");
+    }
+    // A final group of 1, 3 or 6 characters holds bits that no whole number of bytes leaves behind.
+    if ([1, 3, 6].includes(data.length % 8)) {
+        throw new TransformError(`Not base32: ${data.length} characters cannot encode whole bytes; is it cut short?`, "Not\nBase32");
+    }
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+    for (const char of data) {
+        value = ((value << 5) | BASE32.indexOf(char)) & 0xfff;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 0xff);
+            bits -= 8;
+        }
+    }
+    if ((value & ((1 << bits) - 1)) !== 0) {
+        throw new TransformError("Not base32: the last character has bits set past the final byte", "Not\nBase32");
+    }
+    return utf8(Buffer.from(bytes), "base32");
+}
+
+export function base64urlEncode(text: string): string {
+    // Unpadded, as JWTs and most URL uses expect.
+    return Buffer.from(text, "utf8").toString("base64url");
+}
+
+/**
+ * Reads base64 or base64url, padded or not, refusing anything Node would quietly skip.
+ *
+ * Re-encoding the result and comparing catches the last case: a final character with bits set
+ * beyond the last byte, which decoders drop without a word, so two different strings decode alike.
+ *
+ * @throws TransformError naming what is wrong, and suggesting the other alphabet when the input
+ * would be valid in it.
+ */
+export function base64Decode(text: string, alphabet: "base64" | "base64url"): string {
+    const name = alphabet;
+    const keyTitle = alphabet === "base64" ? "Not\nBase64" : "Not\nB64URL";
+    const compact = text.replace(/\s/g, "");
+    const other = alphabet === "base64" ? /^[A-Za-z0-9_-]*=*$/ : /^[A-Za-z0-9+/]*=*$/;
+    const invalid = alphabet === "base64" ? /[^A-Za-z0-9+/=\s]/ : /[^A-Za-z0-9_\-=\s]/;
+    if (invalid.test(text) && other.test(compact)) {
+        throw new TransformError(
+            `Not ${name}: it uses ${alphabet === "base64" ? "- and _" : "+ and /"}, so it looks like ${alphabet === "base64" ? "base64url" : "base64"}`,
+            keyTitle
+        );
+    }
+    rejectInvalid(text, invalid, name, keyTitle);
+    const data = compact.replace(/={1,2}$/, "");
+    if (data.includes("=")) {
+        throw new TransformError(`Not ${name}: padding can only come at the end`, keyTitle);
+    }
+    if (data.length !== compact.length && compact.length % 4 !== 0) {
+        throw new TransformError(`Not ${name}: padded to ${compact.length} characters, not a multiple of 4`, keyTitle);
+    }
+    if (data.length % 4 === 1) {
+        throw new TransformError(`Not ${name}: ${data.length} characters cannot encode whole bytes; is it cut short?`, keyTitle);
+    }
+    const bytes = Buffer.from(data, alphabet);
+    if (bytes.toString(alphabet).replace(/=+$/, "") !== data) {
+        throw new TransformError(`Not ${name}: the last character has bits set past the final byte`, keyTitle);
+    }
+    return utf8(bytes, name);
+}
+
+/** Each byte as eight binary digits, separated by spaces. */
+export function binaryEncode(text: string): string {
+    return Array.from(Buffer.from(text, "utf8"), b => b.toString(2).padStart(8, "0")).join(" ");
+}
+
+/**
+ * Reads binary digits, grouped however the spaces fall.
+ *
+ * @throws TransformError on any other character, or a count of bits that is not whole bytes.
+ */
+export function binaryDecode(text: string): string {
+    rejectInvalid(text, /[^01\s]/, "binary", "Not\nBinary");
+    const digits = text.replace(/\s/g, "");
+    if (digits.length === 0 || digits.length % 8 !== 0) {
+        throw new TransformError(`Not binary: ${digits.length} bits is not a whole number of bytes`, "Not\nBinary");
+    }
+    const bytes = Buffer.from(
+        Array.from({ length: digits.length / 8 }, (_, i) => Number.parseInt(digits.slice(i * 8, i * 8 + 8), 2))
+    );
+    return utf8(bytes, "binary");
+}
+
+/** RFC 2045's limit, counting the `=` of a soft line break. */
+const QP_LINE = 76;
+
+function hexByte(byte: number): string {
+    return `=${byte.toString(16).toUpperCase().padStart(2, "0")}`;
+}
+
+/** One line of quoted-printable, wrapped with soft breaks, which never split an `=XX`. */
+function qpLine(line: string, newline: string): string {
+    const bytes = Buffer.from(line, "utf8");
+    const tokens = Array.from(bytes, (byte, i) => {
+        // Whitespace at the end of a line is stripped in transit, so it is encoded there.
+        const trailing = i === bytes.length - 1 && (byte === 0x20 || byte === 0x09);
+        const literal = (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 0x20 || byte === 0x09) && !trailing);
+        return literal ? String.fromCharCode(byte) : hexByte(byte);
+    });
+    const lines: string[] = [];
+    let current = "";
+    for (const token of tokens) {
+        if (current.length + token.length > QP_LINE - 1) {
+            lines.push(`${current}=`);
+            current = "";
+        }
+        current += token;
+    }
+    lines.push(current);
+    return lines.join(newline);
+}
+
+/**
+ * Quoted-printable, as email bodies use. Line breaks are kept as they are in the text, LF or CRLF,
+ * and long lines are wrapped with soft breaks in the same style.
+ */
+export function qpEncode(text: string): string {
+    const newline = text.includes("\r\n") ? "\r\n" : "\n";
+    // Odd entries are the line breaks themselves, kept so mixed endings survive the round trip.
+    return text.split(/(\r?\n)/).map((part, i) => i % 2 ? part : qpLine(part, newline)).join("");
+}
+
+/**
+ * Reads quoted-printable, joining soft line breaks and dropping the trailing whitespace transit
+ * may have added. Hex digits may be in either case.
+ *
+ * @throws TransformError on an `=` that is neither a soft break nor followed by two hex digits.
+ */
+export function qpDecode(text: string): string {
+    const bytes: number[] = [];
+    const pattern = /=([0-9A-Fa-f]{2})|=[ \t]*(\r?\n|$)|([ \t]+)(?=\r?\n|$)|=|[^=]/gsu;
+    for (const m of text.matchAll(pattern)) {
+        if (m[1] !== undefined) {
+            bytes.push(Number.parseInt(m[1], 16));
+        } else if (m[2] !== undefined || m[3] !== undefined) {
+            // A soft break, or padding before a line break; neither is part of the text.
+        } else if (m[0] === "=") {
+            const { line, column } = lineAndColumn(text, m.index);
+            throw new TransformError(
+                `Not quoted-printable: "=" at line ${line}, column ${column} is not followed by two hex digits`,
+                "Not QP"
+            );
+        } else {
+            bytes.push(...Buffer.from(m[0], "utf8"));
+        }
+    }
+    return utf8(Buffer.from(bytes), "quoted-printable");
+}
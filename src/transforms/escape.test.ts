@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import { applyTransform, type TransformType } from "../utils.js";
+import {
+    htmlEscape, htmlUnescape, jsonEscape, jsonUnescape, regexEscape, regexUnescape, shellEscape, shellUnescape, sqlEscape, sqlUnescape,
+} from "./escape.js";
+
+const TRICKY = [
+    `He said "it's fine" \\ done`,
+    "line one\nline two\r\nthree\ttabbed",
+    "emoji 🙂👩🏽‍💻 and accents é",
+    "<a href='x?a=1&b=2'>link</a>",
+    "$HOME `id` $(rm -rf /) *.txt",
+    "'",
+    "''",
+    "",
+];
+
+describe("escaping", () => {
+    describe.each([
+        ["jsonescape", "jsonunescape"],
+        ["shellescape", "shellunescape"],
+        ["sqlescape", "sqlunescape"],
+        ["regexescape", "regexunescape"],
+        ["htmlescape", "htmlunescape"],
+    ] as [TransformType, TransformType][])("%s and %s", (escape, unescape) => {
+        it.each(TRICKY)("round-trips %j", text => {
+            expect(applyTransform(applyTransform(text, escape), unescape)).toBe(text);
+        });
+    });
+
+    describe("JSON", () => {
+        it("escapes quotes, backslashes and control characters, NUL included", () => {
+            expect(jsonEscape(`a "b" \\ c\nd\0`)).toBe(`a \\"b\\" \\\\ c\\nd\\u0000`);
+        });
+
+        it("keeps emoji as they are", () => {
+            expect(jsonEscape("🙂")).toBe("🙂");
+        });
+
+        it("produces what JSON.parse reads back", () => {
+            for (const text of [...TRICKY, "nul\0"]) expect(JSON.parse(`"${jsonEscape(text)}"`)).toBe(text);
+        });
+
+        it("reads a literal with or without its quotes", () => {
+            expect(jsonUnescape(`"tab\\there"\n`)).toBe("tab\there");
+            expect(jsonUnescape("\\u00e9\\ud83d\\ude42\\/\\u0000")).toBe("é🙂/\0");
+        });
+
+        it("refuses what a JSON string cannot hold", () => {
+            expect(() => jsonUnescape(`say "hi"`)).toThrow("Not a JSON string: an unescaped quote at line 1, column 5");
+            expect(() => jsonUnescape("two\nlines")).toThrow(/a raw line break/);
+            expect(() => jsonUnescape("\\x41")).toThrow(/\\x is not a JSON escape/);
+            expect(() => jsonUnescape("\\u12")).toThrow(/\\u without four hex digits/);
+            expect(() => jsonUnescape("end\\")).toThrow(/a backslash with nothing after it/);
+        });
+    });
+
+    describe("shell", () => {
+        it("single-quotes, splicing in each single quote", () => {
+            expect(shellEscape("it's")).toBe(`'it'\\''s'`);
+            expect(shellEscape("$HOME `id`")).toBe("'$HOME `id`'");
+            expect(shellEscape("")).toBe("''");
+        });
+
+        it("refuses NUL, which no argument can carry", () => {
+            expect(() => shellEscape("a\0b")).toThrow("Not shell-safe: a NUL character, which it cannot hold at line 1, column 2");
+        });
+
+        it("reads quoted and unquoted pieces as one word", () => {
+            expect(shellUnescape(`"it's"`)).toBe("it's");
+            expect(shellUnescape(`don\\'t' 'stop`)).toBe("don't stop");
+            expect(shellUnescape(`"a \\"b\\" \\$c \\d"`)).toBe(`a "b" $c \\d`);
+            expect(shellUnescape("'two\nlines'")).toBe("two\nlines");
+        });
+
+        it("refuses what only the shell can resolve", () => {
+            expect(() => shellUnescape("two words")).toThrow(/unquoted whitespace, which separates words at line 1, column 4/);
+            expect(() => shellUnescape(`"$HOME/bin"`)).toThrow(/\$, which the shell would expand/);
+            expect(() => shellUnescape("'open")).toThrow(/a single quote that is never closed/);
+            expect(() => shellUnescape(`"open`)).toThrow(/a double quote that is never closed/);
+        });
+    });
+
+    describe("SQL", () => {
+        it("doubles single quotes and leaves backslashes alone", () => {
+            expect(sqlEscape("O'Brien \\n")).toBe("'O''Brien \\n'");
+        });
+
+        it("refuses NUL", () => {
+            expect(() => sqlEscape("\0")).toThrow(/NUL/);
+        });
+
+        it("reads a literal with or without its quotes", () => {
+            expect(sqlUnescape(" 'O''Brien' ")).toBe("O'Brien");
+            expect(sqlUnescape("O''Brien")).toBe("O'Brien");
+            expect(sqlUnescape("''''")).toBe("'");
+        });
+
+        it("refuses a quote that is not doubled", () => {
+            expect(() => sqlUnescape("'O'Brien'")).toThrow("Not a SQL string: a single quote that is not doubled at line 1, column 3");
+            expect(() => sqlUnescape("a'''b")).toThrow(/column 4/);
+        });
+    });
+
+    describe("regex", () => {
+        it("escapes syntax and writes control characters as escapes", () => {
+            expect(regexEscape("1.5*(a|b) [x] {2} ^$ / \\")).toBe("1\\.5\\*\\(a\\|b\\) \\[x\\] \\{2\\} \\^\\$ \\/ \\\\");
+            expect(regexEscape("a\nb\0c")).toBe("a\\nb\\x00c");
+        });
+
+        it("matches exactly the text, with and without the u flag", () => {
+            for (const text of [...TRICKY, "a-b,c\0"]) {
+                expect(new RegExp(`^${regexEscape(text)}$`, "u").test(text)).toBe(true);
+                expect(new RegExp(`^${regexEscape(text)}$`).test(text)).toBe(true);
+            }
+        });
+
+        it("reads escapes back", () => {
+            expect(regexUnescape("a\\-b\\x41\\u00e9\\t\\0")).toBe("a-bAé\t\0");
+        });
+
+        it("refuses a pattern that matches more than one text", () => {
+            expect(() => regexUnescape("a.b")).toThrow("Not a literal regex: . is unescaped, so this is a pattern at line 1, column 2");
+            expect(() => regexUnescape("\\d+")).toThrow(/\\d matches more than one character/);
+            expect(() => regexUnescape("\\01")).toThrow(/\\0 matches/);
+        });
+    });
+
+    describe("HTML", () => {
+        it("escapes markup characters and both quotes", () => {
+            expect(htmlEscape(`<p class="a">Tom & Jerry's</p>`)).toBe("&lt;p class=&quot;a&quot;&gt;Tom &amp; Jerry&#39;s&lt;/p&gt;");
+        });
+
+        it("keeps emoji as they are and refuses NUL", () => {
+            expect(htmlEscape("🙂")).toBe("🙂");
+            expect(() => htmlEscape("a\0")).toThrow(/NUL/);
+        });
+
+        it("reads named, decimal and hex references", () => {
+            expect(htmlUnescape("&lt;&amp;&gt; &apos;&quot; &copy;&nbsp;&#128578;&#x1F642;&mdash;")).toBe("<&> '\" © 🙂🙂—");
+        });
+
+        it("keeps an ampersand that starts no reference", () => {
+            expect(htmlUnescape("fish & chips &c")).toBe("fish & chips &c");
+        });
+
+        it("refuses an unknown entity or a number that is not a character", () => {
+            expect(() => htmlUnescape("x &bogus;")).toThrow("Not decodable HTML: &bogus; is not an entity this knows at line 1, column 3");
+            expect(() => htmlUnescape("&#0;")).toThrow(/is not a character/);
+            expect(() => htmlUnescape("&#xD800;")).toThrow(/is not a character/);
+            expect(() => htmlUnescape("&constructor;")).toThrow(/not an entity/);
+        });
+    });
+});
@@ -0,0 +1,300 @@
+import { lineAndColumn, TransformError } from "./shared.js";
+
+/**
+ * Escaping text for pasting into code: JSON strings, POSIX shell words, SQL string literals,
+ * regular expressions and HTML or XML, each with the reverse.
+ *
+ * Escaping produces exactly one literal that means the text, quotes included where the syntax
+ * needs them. Unescaping reads one literal back and refuses anything that is not one — a stray
+ * quote, an unknown escape, a `$` the shell would expand — since guessing would hand back text
+ * that differs from what the code actually means.
+ */
+
+/** Refuses the text, pointing at `offset`. */
+function refuse(text: string, offset: number, what: string, reason: string, keyTitle: string): never {
+    const { line, column } = lineAndColumn(text, offset);
+    throw new TransformError(`Not ${what}: ${reason} at line ${line}, column ${column}`, keyTitle);
+}
+
+/**
+ * Escapes text for embedding in an AppleScript double-quoted string literal.
+ *
+ * AppleScript treats `\` as an escape character inside strings, so unescaped input
+ * containing backslashes (Windows paths, regexes, escaped JSON, LaTeX) is either
+ * mangled or fails to compile. Newlines are converted to escape sequences so the
+ * generated script always stays on a single line — a raw CR would otherwise
+ * terminate the statement.
+ *
+ * Order matters: backslashes must be doubled before any other escape is introduced.
+ */
+export function escapeForAppleScript(text: string): string {
+    return text
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\r/g, '\\r')
+        .replace(/\n/g, '\\n');
+}
+
+/**
+ * The literal trimmed, when it is quoted with `quote` — a literal copied from code often brings
+ * a line break along — and otherwise the text exactly as it is.
+ */
+function unwrap(text: string, quote: string): string {
+    const trimmed = text.trim();
+    return trimmed.length >= 2 && trimmed.startsWith(quote) && trimmed.endsWith(quote) ? trimmed : text;
+}
+
+/**
+ * The inside of a JSON string literal, without the quotes, for pasting between ones already
+ * typed. Control characters, NUL included, become `\n`, `\t` or `\u0000` escapes.
+ */
+export function jsonEscape(text: string): string {
+    return JSON.stringify(text).slice(1, -1);
+}
+
+const JSON_ESCAPES: Record<string, string> = {
+    '"': '"', "\\": "\\", "/": "/", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t",
+};
+
+/**
+ * Reads a JSON string literal, with or without its quotes.
+ *
+ * @throws TransformError on an unescaped quote or control character, or an unknown escape.
+ */
+export function jsonUnescape(input: string): string {
+    const text = unwrap(input, '"');
+    const quoted = text.length >= 2 && text.startsWith('"') && text.endsWith('"');
+    const start = quoted ? 1 : 0;
+    const end = quoted ? text.length - 1 : text.length;
+    const fail = (at: number, reason: string): never => refuse(text, at, "a JSON string", reason, "Bad\nEscape");
+    let out = "";
+    for (let i = start; i < end; i++) {
+        const c = text[i];
+        if (c === '"') fail(i, "an unescaped quote");
+        if (c < " ") fail(i, `a raw ${c === "\n" ? "line break" : "control character"}, which JSON writes as an escape`);
+        if (c !== "\\") {
+            out += c;
+            continue;
+        }
+        const next = text[++i];
+        if (i >= end) fail(i - 1, "a backslash with nothing after it");
+        if (next === "u") {
+            const hex = text.slice(i + 1, i + 5);
+            if (!/^[0-9a-fA-F]{4}$/.test(hex) || i + 5 > end) fail(i - 1, "\\u without four hex digits");
+            out += String.fromCharCode(Number.parseInt(hex, 16));
+            i += 4;
+        } else if (Object.hasOwn(JSON_ESCAPES, next)) {
+            out += JSON_ESCAPES[next];
+        } else {
+            fail(i - 1, `\\${next} is not a JSON escape`);
+        }
+    }
+    return out;
+}
+
+/** NUL ends a C string, so no shell argument, SQL text value or XML document can hold one. */
+function refuseNul(text: string, what: string): void {
+    const at = text.indexOf("\0");
+    if (at !== -1) refuse(text, at, what, "a NUL character, which it cannot hold", "Has\nNUL");
+}
+
+/**
+ * One POSIX shell word, single-quoted so nothing inside is expanded. A single quote cannot appear
+ * inside single quotes at all, so each one closes the quotes, adds `\'`, and reopens them.
+ *
+ * @throws TransformError on NUL, which no argument can carry.
+ */
+export function shellEscape(text: string): string {
+    refuseNul(text, "shell-safe");
+    return `'${text.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Reads one shell word as the shell would, joining quoted and unquoted pieces: `'it'\''s'` and
+ * `"it's"` are both `it's`.
+ *
+ * @throws TransformError on an unclosed quote, unquoted whitespace (several words), or a `$` or
+ * backtick outside single quotes, whose value only the shell knows.
+ */
+export function shellUnescape(text: string): string {
+    const word = text.trim();
+    const fail = (at: number, reason: string): never =>
+        refuse(word, at, "a single shell word", reason, "Not a\nWord");
+    let out = "";
+    for (let i = 0; i < word.length; i++) {
+        const c = word[i];
+        if (c === "'") {
+            const close = word.indexOf("'", i + 1);
+            if (close === -1) fail(i, "a single quote that is never closed");
+            out += word.slice(i + 1, close);
+            i = close;
+        } else if (c === '"') {
+            const open = i;
+            for (i++; ; i++) {
+                if (i >= word.length) fail(open, "a double quote that is never closed");
+                const d = word[i];
+                if (d === '"') break;
+                if (d === "$" || d === "`") fail(i, `${d}, which the shell would expand`);
+                // Inside double quotes a backslash only escapes these five; before anything else
+                // it is an ordinary character.
+                if (d === "\\" && i + 1 < word.length && '$`"\\\n'.includes(word[i + 1])) {
+                    i++;
+                    if (word[i] !== "\n") out += word[i];
+                    continue;
+                }
+                out += d;
+            }
+        } else if (c === "\\") {
+            if (i + 1 >= word.length) fail(i, "a backslash with nothing after it");
+            // Before a line break it joins the lines; before anything else it quotes it.
+            if (word[++i] !== "\n") out += word[i];
+        } else if (c === "$" || c === "`") {
+            fail(i, `${c}, which the shell would expand`);
+        } else if (/\s/.test(c)) {
+            fail(i, "unquoted whitespace, which separates words");
+        } else {
+            out += c;
+        }
+    }
+    return out;
+}
+
+/**
+ * A standard SQL string literal: single quotes, with each one inside doubled. Backslashes are
+ * left alone, as the standard, PostgreSQL, SQLite and SQL Server all read them literally; only
+ * MySQL in its default mode treats them as escapes.
+ *
+ * @throws TransformError on NUL, which text columns refuse.
+ */
+export function sqlEscape(text: string): string {
+    refuseNul(text, "SQL-safe");
+    return `'${text.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Reads a SQL string literal, with or without its quotes.
+ *
+ * @throws TransformError on a single quote that is not doubled.
+ */
+export function sqlUnescape(input: string): string {
+    const text = unwrap(input, "'");
+    const quoted = text.length >= 2 && text.startsWith("'") && text.endsWith("'");
+    const body = quoted ? text.slice(1, -1) : text;
+    // Quotes pair off left to right, so a run of them is only valid when its length is even.
+    for (const m of body.matchAll(/'+/g)) {
+        if (m[0].length % 2 !== 0) {
+            const at = (quoted ? 1 : 0) + m.index + m[0].length - 1;
+            refuse(text, at, "a SQL string", "a single quote that is not doubled", "Bad\nQuote");
+        }
+    }
+    return body.replace(/''/g, "'");
+}
+
+/** What a regex treats as syntax; `/` too, since it ends a regex literal. */
+const REGEX_SYNTAX = /[\\^$.*+?()[\]{}|/]/;
+
+/**
+ * A regex that matches the text literally. Only syntax characters and `/` are escaped, which is
+ * what the `u` flag allows: it rejects escapes such as `\-` outside a class. Line breaks, tabs
+ * and other control characters become `\n`, `\t` or `\xHH`, so the pattern fits on one line of a
+ * regex literal.
+ */
+export function regexEscape(text: string): string {
+    return text.replace(/[\\^$.*+?()[\]{}|/]|[\u0000-\u001f\u007f]/g, c => {
+        if (c === "\n") return "\\n";
+        if (c === "\r") return "\\r";
+        if (c === "\t") return "\\t";
+        if (c < " " || c === "\u007f") return `\\x${c.charCodeAt(0).toString(16).padStart(2, "0")}`;
+        return `\\${c}`;
+    });
+}
+
+const REGEX_ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", f: "\f", v: "\v", 0: "\0" };
+
+/**
+ * The text an escaped regex matches, when it matches exactly one: `1\.5\*` is `1.5*`.
+ *
+ * @throws TransformError on unescaped syntax such as `.` or `*`, or a class escape such as `\d`,
+ * since either means the pattern matches more than one text.
+ */
+export function regexUnescape(text: string): string {
+    const fail = (at: number, reason: string): never => refuse(text, at, "a literal regex", reason, "Not\nLiteral");
+    let out = "";
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (c !== "\\") {
+            if (REGEX_SYNTAX.test(c) && c !== "/") fail(i, `${c} is unescaped, so this is a pattern`);
+            out += c;
+            continue;
+        }
+        const next = text[++i];
+        if (next === undefined) fail(i - 1, "a backslash with nothing after it");
+        const hex = next === "x" ? text.slice(i + 1, i + 3) : next === "u" ? text.slice(i + 1, i + 5) : "";
+        if (next === "x" || next === "u") {
+            if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== (next === "x" ? 2 : 4)) {
+                fail(i - 1, `\\${next} without ${next === "x" ? "two" : "four"} hex digits`);
+            }
+            out += String.fromCharCode(Number.parseInt(hex, 16));
+            i += hex.length;
+        } else if (REGEX_SYNTAX.test(next) || next === "-") {
+            out += next;
+        } else if (Object.hasOwn(REGEX_ESCAPES, next) && !(next === "0" && /\d/.test(text[i + 1] ?? ""))) {
+            out += REGEX_ESCAPES[next];
+        } else {
+            fail(i - 1, `\\${next} matches more than one character or is not an escape`);
+        }
+    }
+    return out;
+}
+
+/** The five characters markup gives meaning to, and the references that stand for them. */
+const HTML_ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+/**
+ * Text as HTML or XML character data or an attribute value, quoted either way. Everything else,
+ * emoji included, is left as is: a page served as UTF-8 needs no numeric references.
+ *
+ * @throws TransformError on NUL, which neither HTML nor XML can carry, even as `&#0;`.
+ */
+export function htmlEscape(text: string): string {
+    refuseNul(text, "HTML-safe");
+    return text.replace(/[&<>"']/g, c => HTML_ESCAPES[c]);
+}
+
+/**
+ * Named entities decoded by name: XML's five and the HTML ones that turn up in copied markup.
+ * Anything else is refused by name rather than left half-decoded.
+ */
+const ENTITIES: Record<string, string> = {
+    amp: "&", lt: "<", gt: ">", quot: '"', apos: "'",
+    nbsp: "\u00a0", shy: "\u00ad", ensp: "\u2002", emsp: "\u2003", thinsp: "\u2009", zwj: "\u200d", zwnj: "\u200c",
+    copy: "©", reg: "®", trade: "™", deg: "°", plusmn: "±", times: "×", divide: "÷", micro: "µ",
+    para: "¶", sect: "§", middot: "·", bull: "•", hellip: "…", prime: "′", Prime: "″",
+    ndash: "–", mdash: "—", lsquo: "‘", rsquo: "’", sbquo: "‚", ldquo: "“", rdquo: "”", bdquo: "„",
+    laquo: "«", raquo: "»", lsaquo: "‹", rsaquo: "›", iexcl: "¡", iquest: "¿",
+    cent: "¢", pound: "£", euro: "€", yen: "¥", curren: "¤",
+    frac12: "½", frac14: "¼", frac34: "¾", sup1: "¹", sup2: "²", sup3: "³", ordf: "ª", ordm: "º",
+    larr: "←", rarr: "→", uarr: "↑", darr: "↓", harr: "↔", rArr: "⇒", lArr: "⇐", hArr: "⇔",
+    ne: "≠", le: "≤", ge: "≥", asymp: "≈", infin: "∞", minus: "−", radic: "√", sum: "∑", prod: "∏",
+    check: "✓", hearts: "♥", spades: "♠", clubs: "♣", diams: "♦", dagger: "†", Dagger: "‡", permil: "‰",
+};
+
+/**
+ * Decodes named, decimal and hex character references. An `&` that starts no reference, as in
+ * `fish & chips`, is kept as written, as browsers do.
+ *
+ * @throws TransformError on an unknown entity name, or a number that is not a character.
+ */
+export function htmlUnescape(text: string): string {
+    return text.replace(/&(?:#(\d+)|#[xX]([0-9a-fA-F]+)|([A-Za-z][A-Za-z0-9]*));/g, (ref, dec, hex, name, at: number) => {
+        if (name !== undefined) {
+            if (!Object.hasOwn(ENTITIES, name)) refuse(text, at, "decodable HTML", `${ref} is not an entity this knows`, "Bad\nEntity");
+            return ENTITIES[name];
+        }
+        const code = Number.parseInt(dec ?? hex, dec !== undefined ? 10 : 16);
+        if (code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) {
+            refuse(text, at, "decodable HTML", `${ref} is not a character`, "Bad\nEntity");
+        }
+        return String.fromCodePoint(code);
+    });
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { applyTransform, detectClipKind } from "../utils.js";
+import { failure } from "./testing.js";
+
+const LOG = [
+    "2026-10-18T09:12:44Z INFO request 3f2b8c1e-4a5d-4e6f-9a0b-1c2d3e4f5a6b from 10.0.4.17:51234",
+    "2026-10-18T09:12:45Z WARN retrying https://api.example.com/v2/orders?id=42 (attempt 2 of 3).",
+    "2026-10-18T09:12:46Z INFO request 3F2B8C1E-4A5D-4E6F-9A0B-1C2D3E4F5A6B from 10.0.4.17",
+    "2026-10-18T09:12:47Z ERROR upstream [2001:db8::1]:443 refused; see <https://status.example.com/>",
+    "Paged ops@example.com and Jane Doe <jane.doe+oncall@example.co.uk>. Theme #1e1e1e, accent #FF8800.",
+].join("\n");
+
+describe("extract transforms", () => {
+    it("pulls every URL out of a log, leaving off the punctuation around it", () => {
+        expect(applyTransform(LOG, "extracturls"))
+            .toBe("https://api.example.com/v2/orders?id=42\nhttps://status.example.com/");
+    });
+
+    it("keeps brackets that belong to the URL", () => {
+        expect(applyTransform("(see https://en.wikipedia.org/wiki/Tree_(graph_theory)).", "extracturls"))
+            .toBe("https://en.wikipedia.org/wiki/Tree_(graph_theory)");
+        expect(applyTransform("[docs](https://example.com/docs)", "extracturls")).toBe("https://example.com/docs");
+    });
+
+    it("pulls email addresses out of headers and prose", () => {
+        expect(applyTransform(LOG, "extractemails")).toBe("ops@example.com\njane.doe+oncall@example.co.uk");
+        expect(applyTransform("mailto:OPS@example.com, ops@example.com.", "extractemails")).toBe("OPS@example.com");
+    });
+
+    it("pulls IPv4 and IPv6 addresses, without their ports", () => {
+        expect(applyTransform(LOG, "extractips")).toBe("10.0.4.17\n2001:db8::1");
+    });
+
+    it("refuses what only looks like an IP address", () => {
+        expect(failure(() => applyTransform("999.1.1.1 at 12:34:56, version 1.2.3.4.5", "extractips")).keyTitle)
+            .toBe("None\nFound");
+    });
+
+    it("drops a UUID repeated in another case", () => {
+        expect(applyTransform(LOG, "extractuuids")).toBe("3f2b8c1e-4a5d-4e6f-9a0b-1c2d3e4f5a6b");
+    });
+
+    it("pulls numbers standing on their own, not parts of dates, times or versions", () => {
+        expect(applyTransform("Total: $1,299.50 for 3 items (-12 on 2026-10-18 at 09:30), v2 1.2.3 and 7.", "extractnumbers"))
+            .toBe("1,299.50\n3\n-12\n7");
+    });
+
+    it("pulls hex colours but not character references", () => {
+        expect(applyTransform(LOG, "extractcolors")).toBe("#1e1e1e\n#FF8800");
+        expect(failure(() => applyTransform("&#123; and #12345", "extractcolors")).message)
+            .toBe("There are no hex colours in the text");
+    });
+
+    it("finds what detectClipKind would badge as that kind", () => {
+        const cases: [string, ReturnType<typeof detectClipKind>, Parameters<typeof applyTransform>[1]][] = [
+            ["https://example.com/a?b=c", "url", "extracturls"],
+            ["glen@example.com", "email", "extractemails"],
+            ["192.168.1.10", "ip", "extractips"],
+            ["2001:db8::1", "ip", "extractips"],
+            ["550e8400-e29b-41d4-a716-446655440000", "uuid", "extractuuids"],
+            ["#FF8800CC", "color", "extractcolors"],
+        ];
+        for (const [value, kind, transform] of cases) {
+            expect(detectClipKind(value)).toBe(kind);
+            expect(applyTransform(`before ${value} after`, transform)).toBe(value);
+        }
+    });
+});
@@ -0,0 +1,123 @@
+import { isIP } from "node:net";
+import { TransformError } from "./shared.js";
+
+/**
+ * Recognisers for the single-token kinds of text — URLs, email addresses, IP addresses, UUIDs and
+ * hex colours — and extraction of every one of them from running text, such as a log excerpt or
+ * an email thread.
+ *
+ * There is one definition of each kind. The clip badges ask whether a whole value *is* one, and
+ * extraction finds candidates in text and then asks the same question of each, so a URL the
+ * picker badges is exactly a URL these transforms pull out.
+ */
+
+/** Canonical 8-4-4-4-12 hex form, any version. Braced and `urn:uuid:` forms are vanishingly rare on a clipboard. */
+const UUID = "[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}";
+
+export function isUuid(value: string): boolean {
+    return new RegExp(`^${UUID}$`, "i").test(value);
+}
+
+export function isUrl(value: string): boolean {
+    return /^https?:\/\/\S+$/i.test(value);
+}
+
+/** #RGB, #RGBA, #RRGGBB and #RRGGBBAA. */
+export function isHexColor(value: string): boolean {
+    return /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value);
+}
+
+/**
+ * IPv4 or IPv6. node:net validates octet ranges and IPv6 properly, so `999.1.1.1` is correctly
+ * refused — something a dotted-quad regex would happily accept.
+ */
+export function isIpAddress(value: string): boolean {
+    return isIP(value) !== 0;
+}
+
+export function isEmail(value: string): boolean {
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+}
+
+export type ExtractKind = "url" | "email" | "ip" | "uuid" | "number" | "color";
+
+type Recogniser = {
+    /** Finds candidates: loose enough to miss nothing, since `accept` has the last word. */
+    find: RegExp;
+    /** Tidies a candidate before it is checked, for punctuation the text put around it. */
+    trim?: (candidate: string) => string;
+    accept: (candidate: string) => boolean;
+    /** Folds case before duplicates are dropped, for kinds where case means nothing. */
+    caseless: boolean;
+    /** Plural, for the report when there are none. */
+    name: string;
+};
+
+/**
+ * Drops what a sentence or markup puts after a URL: a full stop, a closing quote, or a bracket
+ * that the URL did not open — so `(see https://x.test/a_(b))` keeps the one and loses the other.
+ */
+function trimUrl(candidate: string): string {
+    const count = (s: string, char: string) => s.split(char).length - 1;
+    let url = candidate;
+    for (;;) {
+        const last = url[url.length - 1];
+        const open = { ")": "(", "]": "[", "}": "{" }[last as ")" | "]" | "}"];
+        const unopened = open !== undefined && count(url, open) < count(url, last);
+        if (!unopened && !/[.,;:!?'*_]/.test(last)) return url;
+        url = url.slice(0, -1);
+    }
+}
+
+const RECOGNISERS: Record<ExtractKind, Recogniser> = {
+    // `<`, `>` and `"` cannot appear in a URL unescaped, so they end one inside markup.
+    url: { find: /https?:\/\/[^\s<>"]+/gi, trim: trimUrl, accept: isUrl, caseless: false, name: "URLs" },
+    email: {
+        find: /[\p{L}\p{N}.!#$%&'*+/=?^_`{|}~-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+/gu,
+        // An address cannot start or end with a dot, so one there is the sentence's.
+        trim: candidate => candidate.replace(/^\.+/, ""),
+        accept: isEmail,
+        caseless: true,
+        name: "email addresses",
+    },
+    // Dotted quads, and anything of hex digits and colons for IPv6; `isIP` then refuses the
+    // timestamps and version numbers among them. A port after an address is left off.
+    ip: {
+        find: /(?<![\w.])\d{1,3}(?:\.\d{1,3}){3}(?!\w|\.\d)|(?<![\w:])[0-9a-f]*:[0-9a-f:]*(?:\d{1,3}(?:\.\d{1,3}){3})?(?![\w:])/gi,
+        accept: candidate => /[0-9a-f]/i.test(candidate) && isIpAddress(candidate),
+        caseless: true,
+        name: "IP addresses",
+    },
+    uuid: { find: new RegExp(`(?<![\\w-])${UUID}(?![\\w-])`, "gi"), accept: isUuid, caseless: true, name: "UUIDs" },
+    // Whole numbers and decimals standing on their own, with thousands commas. Digits inside a
+    // word, a date, a time or a version are part of that, not numbers in their own right.
+    number: {
+        find: /(?<![\w.:/-])[-+]?\d+(?:,\d{3})*(?:\.\d+)?(?:e[-+]?\d+)?(?![\w:/-]|[.,]\d)/gi,
+        accept: () => true,
+        caseless: false,
+        name: "numbers",
+    },
+    // Not after `&`, where `&#123;` is a character reference.
+    color: { find: /(?<![\w&#])#[0-9a-f]{3,8}(?![\w-])/gi, accept: isHexColor, caseless: true, name: "hex colours" },
+};
+
+/**
+ * Every `kind` in the text, one per line in the order they first appear, without duplicates.
+ *
+ * @throws TransformError when there are none, since an empty result pasted over a selection
+ * would be a surprise.
+ */
+export function extractAll(text: string, kind: ExtractKind): string {
+    const recogniser = RECOGNISERS[kind];
+    const found = new Map<string, string>();
+    for (const [match] of text.matchAll(recogniser.find)) {
+        const candidate = recogniser.trim?.(match) ?? match;
+        if (!recogniser.accept(candidate)) continue;
+        const key = recogniser.caseless ? candidate.toLowerCase() : candidate;
+        if (!found.has(key)) found.set(key, candidate);
+    }
+    if (found.size === 0) {
+        throw new TransformError(`There are no ${recogniser.name} in the text`, "None\nFound");
+    }
+    return [...found.values()].join("\n");
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { applyTransform } from "../utils.js";
+import { hmacAlgorithm } from "./hash.js";
+
+describe("digests", () => {
+    // Reference values from `printf 'abc' | shasum -a …` and `md5`.
+    it.each([
+        ["md5", "900150983cd24fb0d6963f7d28e17f72"],
+        ["sha1", "a9993e364706816aba3e25717850c26c9cd0d89d"],
+        ["sha256", "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"],
+        ["sha512", "ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f"],
+    ] as const)("%s of abc", (transform, hex) => {
+        expect(applyTransform("abc", transform)).toBe(hex);
+    });
+
+    it("outputs base64 when asked", () => {
+        expect(applyTransform("abc", "sha256", { hashEncoding: "base64" })).toBe("ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=");
+    });
+
+    it("hashes UTF-8 bytes, and does not trim", () => {
+        // The bytes C3 A9, not the Latin-1 byte E9.
+        expect(applyTransform("é", "md5")).toBe("66ddcd97cfdeabb2f6fb8a999b4bc76f");
+        expect(applyTransform("abc\n", "md5")).toBe("0bee89b07a248e27c83fc3d5951213c1");
+    });
+});
+
+describe("hmac", () => {
+    // RFC 4231 test case 2.
+    const data = "what do ya want for nothing?";
+
+    it("signs with SHA-256 by default", () => {
+        expect(applyTransform(data, "hmac", { hmacKey: "Jefe" }))
+            .toBe("5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843");
+    });
+
+    it("uses the chosen algorithm and encoding", () => {
+        expect(applyTransform(data, "hmac", { hmacKey: "Jefe", hmacAlgorithm: "sha512" }))
+            .toBe("164b7a7bfcf819e2e395fbe73b56e0a387bd64222e831fd610270cd7ea2505549758bf75c05a994a6d034f65f8f0e6fdcaeab1a34d4a6b4b636e070a38bce737");
+        expect(applyTransform(data, "hmac", { hmacKey: "Jefe", hashEncoding: "base64" }))
+            .toBe("W9zBRr9gdU5qBCQmCJV1x1oAPwidJzmDnexYuWTsOEM=");
+    });
+
+    it("refuses to sign without a key", () => {
+        expect(() => applyTransform(data, "hmac")).toThrow(/No HMAC key/);
+        expect(() => applyTransform(data, "hmac", { hmacKey: "" })).toThrow(/No HMAC key/);
+    });
+
+    it.each([
+        [undefined, "sha256"],
+        ["sha1", "sha1"],
+        ["sha384", "sha256"],
+    ])("reads algorithm %j", (value, algorithm) => expect(hmacAlgorithm(value)).toBe(algorithm));
+});
@@ -0,0 +1,40 @@
+import { createHash, createHmac } from "node:crypto";
+import { TransformError } from "./shared.js";
+
+/**
+ * Digests and HMAC signatures of the text as UTF-8, exactly as copied — nothing is trimmed, since
+ * a trailing newline is part of what a checksum or a webhook signature covers.
+ */
+
+export type HashAlgorithm = "md5" | "sha1" | "sha256" | "sha512";
+export type HashEncoding = "hex" | "base64";
+
+const ALGORITHMS: readonly HashAlgorithm[] = ["md5", "sha1", "sha256", "sha512"];
+
+/** The output setting. Hex, as `shasum` prints, unless base64 was chosen. */
+export function hashEncoding(value: unknown): HashEncoding {
+    return value === "base64" ? "base64" : "hex";
+}
+
+/**
+ * The HMAC algorithm setting. SHA-256 by default, since it is what GitHub, Stripe and Slack all
+ * sign webhooks with.
+ */
+export function hmacAlgorithm(value: unknown): HashAlgorithm {
+    return ALGORITHMS.includes(value as HashAlgorithm) ? (value as HashAlgorithm) : "sha256";
+}
+
+export function digest(text: string, algorithm: HashAlgorithm, encoding: HashEncoding): string {
+    return createHash(algorithm).update(text, "utf8").digest(encoding);
+}
+
+/**
+ * Signs the text with `key`, taken as UTF-8 — the form webhook secrets are handed out in.
+ *
+ * @throws TransformError when no key is set. An empty key is valid HMAC, but a signature made
+ * with one is never what someone checking a webhook wants.
+ */
+export function hmac(text: string, key: string, algorithm: HashAlgorithm, encoding: HashEncoding): string {
+    if (key === "") throw new TransformError("No HMAC key; set one in the button settings", "No\nKey");
+    return createHmac(algorithm, key).update(text, "utf8").digest(encoding);
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { applyTransform, isGenerator } from "../utils.js";
+import { alphabetOption, randomString, ulid, uuidv7 } from "./ids.js";
+
+describe("identifier generators", () => {
+    it.each(["uuidv7", "ulid", "nanoid", "randomstring"] as const)("%s ignores the clipboard", transform => {
+        expect(isGenerator(transform)).toBe(true);
+        expect(applyTransform("clipboard text", transform)).not.toContain("clipboard");
+    });
+
+    describe("uuidv7", () => {
+        it("has the version and variant bits and starts with the time", () => {
+            const id = uuidv7(0x0190_1234_5678);
+            expect(id).toMatch(/^01901234-5678-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+        });
+
+        it("sorts by creation time", () => {
+            const ids = [uuidv7(1_700_000_000_000), uuidv7(1_700_000_000_001), uuidv7(1_800_000_000_000)];
+            expect([...ids].sort()).toEqual(ids);
+        });
+
+        it("is random after the timestamp", () => {
+            expect(uuidv7(1)).not.toBe(uuidv7(1));
+        });
+    });
+
+    describe("ulid", () => {
+        it("is 26 Crockford base32 characters with the time first", () => {
+            // The example timestamp from the ULID specification.
+            const id = ulid(1469922850259);
+            expect(id).toMatch(/^01ARZ3NDEK[0-9A-HJKMNP-TV-Z]{16}$/);
+        });
+
+        it("sorts by creation time", () => {
+            const ids = [ulid(1_700_000_000_000), ulid(1_700_000_000_001), ulid(1_800_000_000_000)];
+            expect([...ids].sort()).toEqual(ids);
+        });
+    });
+
+    describe("nanoid", () => {
+        it("is 21 URL-safe characters", () => {
+            expect(applyTransform("", "nanoid")).toMatch(/^[A-Za-z0-9_-]{21}$/);
+        });
+    });
+
+    describe("randomstring", () => {
+        it("defaults to 16 alphanumeric characters", () => {
+            expect(applyTransform("", "randomstring")).toMatch(/^[A-Za-z0-9]{16}$/);
+        });
+
+        it("uses the length, preset and grouping from the settings", () => {
+            const id = applyTransform("", "randomstring", { randomLength: "12", randomAlphabet: "crockford", randomGroup: "4" });
+            expect(id).toMatch(/^[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}$/);
+        });
+
+        it("leaves a short last group", () => {
+            expect(randomString(7, ["x", "y"], 3)).toMatch(/^[xy]{3}-[xy]{3}-[xy]$/);
+        });
+
+        it("takes custom characters whole", () => {
+            expect(Array.from(randomString(10, alphabetOption("🙂🙃"), 0))).toHaveLength(10);
+            expect(randomString(50, alphabetOption("ab"), 0)).toMatch(/^[ab]{50}$/);
+        });
+
+        it("clamps the length", () => {
+            expect(randomString("0", alphabetOption("hex"), 0)).toHaveLength(1);
+            expect(randomString(10_000, alphabetOption("hex"), 0)).toHaveLength(256);
+        });
+
+        it("draws every character of the alphabet", () => {
+            const seen = new Set(randomString(256, alphabetOption("digits"), 0));
+            expect(seen.size).toBe(10);
+        });
+
+        it("drops duplicate characters", () => {
+            expect(alphabetOption("aabbb")).toEqual(["a", "b"]);
+        });
+
+        it("refuses an alphabet of one character", () => {
+            expect(() => alphabetOption("aaaa")).toThrow(/at least two different characters/);
+        });
+
+        it("reads a preset name only when it is one", () => {
+            expect(alphabetOption("constructor")).toEqual(["c", "o", "n", "s", "t", "r", "u"]);
+        });
+    });
+});
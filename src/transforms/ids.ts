@@ -0,0 +1,89 @@
+import { randomBytes, randomInt } from "node:crypto";
+import { intOption, TransformError } from "./shared.js";
+
+/**
+ * Identifier generators beyond `randomUUID()`. All randomness comes from `node:crypto`; none of
+ * these should ever be guessable, since some end up as primary keys in URLs.
+ */
+
+/** Crockford's base32: no I, L, O or U, so an id read aloud or retyped survives. */
+const CROCKFORD = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+/** The nanoid alphabet: URL-safe, 64 characters, so one random byte masks to one character. */
+const NANOID = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789_-";
+
+/** Named alphabets for the random-string generator; anything else is taken as the characters to use. */
+const ALPHABETS: Record<string, string> = {
+    alphanumeric: "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789",
+    lower: "abcdefghijklmnopqrstuvwxyz0123456789",
+    upper: "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789",
+    digits: "0123456789",
+    hex: "0123456789abcdef",
+    crockford: CROCKFORD,
+    urlsafe: NANOID,
+};
+
+/**
+ * UUID version 7 (RFC 9562): 48 bits of Unix milliseconds, then random bits, so ids sort by
+ * creation time and index like a sequence instead of scattering writes across a B-tree.
+ */
+export function uuidv7(now = Date.now()): string {
+    const bytes = randomBytes(16);
+    bytes.writeUIntBE(now, 0, 6);
+    bytes[6] = (bytes[6] & 0x0f) | 0x70; // version 7
+    bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 9562 variant
+    const hex = bytes.toString("hex");
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * ULID: 48 bits of Unix milliseconds as 10 Crockford base32 characters, then 80 random bits as 16.
+ * Sorts by time as text, which is the point of it.
+ */
+export function ulid(now = Date.now()): string {
+    let time = "";
+    for (let t = now, i = 0; i < 10; i++, t = Math.floor(t / 32)) time = CROCKFORD[t % 32] + time;
+    // 80 bits is exactly 16 five-bit characters; read them off ten bytes as one big integer.
+    let random = BigInt(`0x${randomBytes(10).toString("hex")}`);
+    let tail = "";
+    for (let i = 0; i < 16; i++, random >>= 5n) tail = CROCKFORD[Number(random & 31n)] + tail;
+    return time + tail;
+}
+
+/** A 21-character nanoid: 126 random bits, URL-safe. */
+export function nanoid(): string {
+    return Array.from(randomBytes(21), b => NANOID[b & 63]).join("");
+}
+
+/**
+ * The alphabet setting: a preset name, or the characters themselves. Duplicates are dropped —
+ * `aab` would otherwise pick `a` twice as often — and characters are taken whole, so an emoji
+ * alphabet works.
+ *
+ * @throws TransformError when fewer than two distinct characters remain.
+ */
+export function alphabetOption(value: unknown): string[] {
+    const raw = typeof value === "string" && value !== "" ? value : "alphanumeric";
+    const chars = [...new Set(Array.from(Object.hasOwn(ALPHABETS, raw) ? ALPHABETS[raw] : raw))];
+    if (chars.length < 2) {
+        throw new TransformError("The alphabet needs at least two different characters", "Bad\nAlphabet");
+    }
+    return chars;
+}
+
+/**
+ * A random string of `length` characters from `alphabet`, split into groups of `group` with
+ * hyphens when `group` is above zero, as licence keys and recovery codes are.
+ *
+ * Each character is an unbiased `crypto.randomInt` draw. Masking bytes, as nanoid does, is only
+ * unbiased for alphabets whose size is a power of two.
+ */
+export function randomString(length: unknown, alphabet: string[], group: unknown): string {
+    const n = intOption(length, 16, 1, 256);
+    const size = intOption(group, 0, 0, 256);
+    const chars = Array.from({ length: n }, () => alphabet[randomInt(alphabet.length)]);
+    if (size === 0) return chars.join("");
+    const groups: string[] = [];
+    for (let i = 0; i < chars.length; i += size) groups.push(chars.slice(i, i + size).join(""));
+    return groups.join("-");
+}
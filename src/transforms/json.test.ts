@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { applyPipeline, applyTransform, PipelineError } from "../utils.js";
+import { jsonIndent, parseJson } from "./json.js";
+import { failure } from "./testing.js";
+
+describe("jsonpretty", () => {
+    it("indents with two spaces by default", () => {
+        expect(applyTransform('{"a":1,"b":[true,null]}', "jsonpretty"))
+            .toBe('{\n  "a": 1,\n  "b": [\n    true,\n    null\n  ]\n}');
+    });
+
+    it("uses the configured indent", () => {
+        expect(applyTransform('{"a":1}', "jsonpretty", { jsonIndent: "4" })).toBe('{\n    "a": 1\n}');
+        expect(applyTransform('{"a":1}', "jsonpretty", { jsonIndent: "tab" })).toBe('{\n\t"a": 1\n}');
+    });
+
+    it("keeps empty containers on one line", () => {
+        expect(applyTransform('{"a":{},"b":[]}', "jsonpretty")).toBe('{\n  "a": {},\n  "b": []\n}');
+    });
+
+    it("keeps numbers exactly as written", () => {
+        expect(applyTransform('{"id":1234567890123456789,"x":1.50,"y":1E3}', "jsonminify"))
+            .toBe('{"id":1234567890123456789,"x":1.50,"y":1E3}');
+    });
+
+    it("keeps duplicate keys and their order", () => {
+        expect(applyTransform('{"b":1,"a":2,"b":3}', "jsonminify")).toBe('{"b":1,"a":2,"b":3}');
+    });
+
+    it("decodes needless escapes and keeps required ones", () => {
+        expect(applyTransform('["\\u00e9","a\\"b\\n","\\/"]', "jsonminify")).toBe('["é","a\\"b\\n","/"]');
+    });
+
+    it("accepts a bare scalar", () => {
+        expect(applyTransform(' "text" ', "jsonpretty")).toBe('"text"');
+    });
+});
+
+describe("jsonminify", () => {
+    it("removes all insignificant whitespace", () => {
+        expect(applyTransform('{\n  "a" : [ 1 , 2 ],\r\n\t"b": "x y"\n}', "jsonminify")).toBe('{"a":[1,2],"b":"x y"}');
+    });
+});
+
+describe("jsonsortkeys", () => {
+    it("sorts keys at every depth and leaves arrays in order", () => {
+        expect(applyTransform('{"b":{"z":1,"a":2},"a":[3,1]}', "jsonsortkeys"))
+            .toBe('{\n  "a": [\n    3,\n    1\n  ],\n  "b": {\n    "a": 2,\n    "z": 1\n  }\n}');
+    });
+
+    it("sorts by code unit, capitals first", () => {
+        expect(applyTransform('{"b":1,"B":2,"a":3}', "jsonsortkeys", { jsonIndent: "tab" }))
+            .toBe('{\n\t"B": 2,\n\t"a": 3,\n\t"b": 1\n}');
+    });
+});
+
+describe("jsonvalidate", () => {
+    it("passes valid JSON through unchanged", () => {
+        const text = '{ "a": 1 }\n';
+        expect(applyTransform(text, "jsonvalidate")).toBe(text);
+    });
+
+    it("reports the line and column of the first error", () => {
+        const error = failure(() => applyTransform('{\n  "a": 1,\n  "b": tru\n}', "jsonvalidate"));
+        expect(error.message).toBe('Invalid JSON at line 3, column 8: expected a value but found "t"');
+        expect(error.keyTitle).toBe("Line 3\nCol 8");
+    });
+
+    it.each([
+        ['{"a":1,}', 'expected a property name in double quotes but found "}"'],
+        ['[1,2', 'expected "," or "]" after an array element but found the end of the text'],
+        ['{"a" 1}', 'expected ":" after a property name but found "1"'],
+        ["{'a':1}", "expected a property name in double quotes but found \"'\""],
+        ['"tab\there"', 'expected a complete string with valid escapes'],
+        ['01', 'expected the end of the text but found "1"'],
+        ['{"a":1} x', 'expected the end of the text but found "x"'],
+        ['', 'expected a value but found the end of the text'],
+    ])("refuses %j", (text, reason) => {
+        expect(() => applyTransform(text, "jsonvalidate")).toThrow(reason);
+    });
+
+    it("names the step and keeps the key title inside a pipeline", () => {
+        try {
+            applyPipeline("  [1,,2]", ["trim", "jsonpretty"]);
+            expect.unreachable();
+        } catch (error) {
+            expect(error).toBeInstanceOf(PipelineError);
+            expect((error as PipelineError).step).toBe(1);
+            expect((error as PipelineError).keyTitle).toBe("Line 1\nCol 4");
+        }
+    });
+});
+
+describe("parseJson", () => {
+    it("counts columns from one, after the last newline", () => {
+        expect(failure(() => parseJson("[\r\n  x]")).keyTitle).toBe("Line 2\nCol 3");
+    });
+});
+
+describe("jsonIndent", () => {
+    it.each([
+        [undefined, "  "],
+        ["4", "    "],
+        [3, "   "],
+        ["tab", "\t"],
+        ["99", "        "],
+        ["0", " "],
+        ["wide", "  "],
+    ])("reads %j", (value, indent) => expect(jsonIndent(value)).toBe(indent));
+});
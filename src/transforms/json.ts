@@ -0,0 +1,184 @@
+import { intOption, lineAndColumn, TransformError } from "./shared.js";
+
+/**
+ * JSON formatting, minifying, key sorting and validation.
+ *
+ * Parsed by hand rather than with `JSON.parse`, for two reasons that both matter for API
+ * responses copied out of devtools:
+ *
+ *  - numbers are kept as the exact text they arrived as. `JSON.parse` turns a 64-bit id such as
+ *    `1234567890123456789` into the nearest double, `1234567890123456800`, so a formatter built
+ *    on it silently corrupts exactly the values people copy to look up
+ *  - errors carry a line and column. V8's messages give a character offset at best, and for
+ *    truncated input nothing at all
+ *
+ * Strings are decoded and re-encoded, so `"é"` comes back as `"é"` — the same string, and
+ * the form a person would rather read.
+ */
+
+/** A parsed JSON value. Objects keep their entries in order, duplicates included. */
+export type JsonNode =
+    | { type: "object"; entries: [string, JsonNode][] }
+    | { type: "array"; items: JsonNode[] }
+    | { type: "string"; value: string }
+    /** `raw` is the literal as written, so no precision is lost in a round trip. */
+    | { type: "number"; raw: string }
+    | { type: "literal"; value: true | false | null };
+
+const NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const STRING = /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y;
+const WHITESPACE = /[ \t\n\r]*/y;
+
+/**
+ * Parses strict JSON — no comments, no trailing commas — into a {@link JsonNode}.
+ *
+ * @throws TransformError naming what was expected and where, with the line and column as the
+ * key title.
+ */
+export function parseJson(text: string): JsonNode {
+    let at = 0;
+
+    // A declaration rather than an arrow, so TypeScript knows code after a call is unreachable.
+    function fail(what: string): never {
+        const { line, column } = lineAndColumn(text, at);
+        const found = at >= text.length ? "the end of the text" : `"${text[at]}"`;
+        throw new TransformError(
+            `Invalid JSON at line ${line}, column ${column}: expected ${what} but found ${found}`,
+            `Line ${line}\nCol ${column}`
+        );
+    }
+
+    const skip = (): void => {
+        WHITESPACE.lastIndex = at;
+        WHITESPACE.exec(text);
+        at = WHITESPACE.lastIndex;
+    };
+
+    const match = (pattern: RegExp): string | null => {
+        pattern.lastIndex = at;
+        const m = pattern.exec(text);
+        if (!m) return null;
+        at = pattern.lastIndex;
+        return m[0];
+    };
+
+    const value = (): JsonNode => {
+        skip();
+        const c = text[at];
+        if (c === "{") {
+            at++;
+            const entries: [string, JsonNode][] = [];
+            skip();
+            if (text[at] === "}") { at++; return { type: "object", entries }; }
+            for (;;) {
+                skip();
+                const key = match(STRING);
+                if (key === null) fail("a property name in double quotes");
+                skip();
+                if (text[at] !== ":") fail(`":" after a property name`);
+                at++;
+                entries.push([JSON.parse(key) as string, value()]);
+                skip();
+                if (text[at] === ",") { at++; continue; }
+                if (text[at] === "}") { at++; return { type: "object", entries }; }
+                fail(`"," or "}" after a property value`);
+            }
+        }
+        if (c === "[") {
+            at++;
+            const items: JsonNode[] = [];
+            skip();
+            if (text[at] === "]") { at++; return { type: "array", items }; }
+            for (;;) {
+                items.push(value());
+                skip();
+                if (text[at] === ",") { at++; continue; }
+                if (text[at] === "]") { at++; return { type: "array", items }; }
+                fail(`"," or "]" after an array element`);
+            }
+        }
+        if (c === '"') {
+            const raw = match(STRING);
+            if (raw === null) fail("a complete string with valid escapes");
+            return { type: "string", value: JSON.parse(raw) as string };
+        }
+        for (const [word, literal] of [["true", true], ["false", false], ["null", null]] as const) {
+            if (text.startsWith(word, at)) {
+                at += word.length;
+                return { type: "literal", value: literal };
+            }
+        }
+        const raw = match(NUMBER);
+        if (raw !== null) return { type: "number", raw };
+        return fail("a value");
+    };
+
+    const root = value();
+    skip();
+    if (at < text.length) fail("the end of the text");
+    return root;
+}
+
+/** Renders a node. An empty `indent` produces minified output. */
+export function stringifyJson(node: JsonNode, indent: string, depth = 0): string {
+    const pad = (d: number) => (indent ? "\n" + indent.repeat(d) : "");
+    const colon = indent ? ": " : ":";
+    switch (node.type) {
+        case "object":
+            if (node.entries.length === 0) return "{}";
+            return `{${node.entries
+                .map(([k, v]) => `${pad(depth + 1)}${JSON.stringify(k)}${colon}${stringifyJson(v, indent, depth + 1)}`)
+                .join(",")}${pad(depth)}}`;
+        case "array":
+            if (node.items.length === 0) return "[]";
+            return `[${node.items
+                .map(v => `${pad(depth + 1)}${stringifyJson(v, indent, depth + 1)}`)
+                .join(",")}${pad(depth)}]`;
+        case "string":
+            return JSON.stringify(node.value);
+        case "number":
+            return node.raw;
+        case "literal":
+            return String(node.value);
+    }
+}
+
+/**
+ * Sorts every object's keys, at every depth, by UTF-16 code unit — the order `jq -S` uses, and
+ * one that does not change with the machine's locale. Arrays keep their order, since it is data.
+ */
+export function sortJsonKeys(node: JsonNode): JsonNode {
+    switch (node.type) {
+        case "object":
+            return {
+                type: "object",
+                entries: node.entries
+                    .map(([k, v]): [string, JsonNode] => [k, sortJsonKeys(v)])
+                    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+            };
+        case "array":
+            return { type: "array", items: node.items.map(sortJsonKeys) };
+        default:
+            return node;
+    }
+}
+
+/** What kind of value a node is, as an error message names it: "an object", "null", "a string". */
+export function describeJson(node: JsonNode): string {
+    switch (node.type) {
+        case "object":
+            return "an object";
+        case "array":
+            return "an array";
+        case "literal":
+            return node.value === null ? "null" : "a boolean";
+        default:
+            return `a ${node.type}`;
+    }
+}
+
+/** The indent setting: a number of spaces from 1 to 8, or `tab`. Defaults to two spaces. */
+export function jsonIndent(value: unknown): string {
+    if (value === "tab") return "\t";
+    return " ".repeat(intOption(value, 2, 1, 8));
+}
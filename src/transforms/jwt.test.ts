@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { applyTransform } from "../utils.js";
+import { decodeJwt, isJwt } from "./jwt.js";
+
+const part = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+const token = (payload: unknown, header: unknown = { alg: "HS256", typ: "JWT" }) =>
+    `${part(header)}.${part(payload)}.c2lnbmF0dXJl`;
+
+/** Local wall-clock times, so the expected strings hold in any time zone. */
+const NOW = new Date(2026, 9, 18, 14, 15, 0).getTime();
+const seconds = (d: Date) => d.getTime() / 1000;
+
+describe("jwtdecode", () => {
+    afterEach(() => vi.useRealTimers());
+
+    it("outputs the header and payload as formatted JSON", () => {
+        expect(decodeJwt(token({ sub: "42", admin: true }), "  ", true, NOW)).toBe(
+            '{\n  "header": {\n    "alg": "HS256",\n    "typ": "JWT"\n  },\n' +
+            '  "payload": {\n    "sub": "42",\n    "admin": true\n  }\n}'
+        );
+    });
+
+    it("lists the time claims as local dates, saying what each means now", () => {
+        const jwt = token({
+            exp: seconds(new Date(2026, 9, 18, 14, 3, 0)),
+            iat: seconds(new Date(2026, 9, 18, 11, 15, 0)),
+            nbf: seconds(new Date(2026, 9, 18, 14, 20, 0)),
+        });
+        expect(decodeJwt(jwt, "", true, NOW).split("\n\n")[1]).toBe([
+            "iat: 2026-10-18 11:15:00 — issued 3 hours ago",
+            "nbf: 2026-10-18 14:20:00 — not valid for another 5 minutes",
+            "exp: 2026-10-18 14:03:00 — expired 12 minutes ago",
+        ].join("\n"));
+    });
+
+    it("says when a live token expires", () => {
+        const jwt = token({ exp: seconds(new Date(2026, 9, 20, 14, 15, 0)) });
+        expect(decodeJwt(jwt, "", true, NOW)).toMatch(/exp: 2026-10-20 14:15:00 — expires in 2 days$/);
+    });
+
+    it("keeps the output pure JSON when dates are turned off", () => {
+        const jwt = token({ exp: 1 });
+        expect(JSON.parse(decodeJwt(jwt, "  ", false, NOW))).toEqual({
+            header: { alg: "HS256", typ: "JWT" },
+            payload: { exp: 1 },
+        });
+    });
+
+    it("skips time claims that are not numbers", () => {
+        expect(decodeJwt(token({ exp: "tomorrow" }), "", true, NOW)).toBe(
+            '{"header":{"alg":"HS256","typ":"JWT"},"payload":{"exp":"tomorrow"}}');
+    });
+
+    it("reads the settings and the clock through applyTransform", () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(NOW);
+        const jwt = `\n${token({ exp: seconds(new Date(2026, 9, 18, 14, 14, 0)) })}\n`;
+        expect(applyTransform(jwt, "jwtdecode")).toMatch(/expired 60 seconds ago$/);
+        expect(applyTransform(jwt, "jwtdecode", { jwtDates: false })).not.toMatch(/expired/);
+        expect(applyTransform(jwt, "jwtdecode", { jwtDates: "false", jsonIndent: "tab" })).toMatch(/^{\n\t"header"/);
+    });
+
+    it("accepts an unsigned token", () => {
+        const jwt = `${part({ alg: "none" })}.${part({ sub: "x" })}.`;
+        expect(applyTransform(jwt, "jwtdecode", { jwtDates: false })).toContain('"alg": "none"');
+    });
+
+    it.each([
+        ["Bearer " + token({}), "a Bearer header"],
+        ["a.b.c", "three parts that are not JSON"],
+        [`${part({ typ: "JWT" })}.${part({})}.sig`, "a header with no alg"],
+        ["not a token", "plain text"],
+    ])("refuses %s (%s), as isJwt does", text => {
+        expect(isJwt(text.trim())).toBe(false);
+        expect(() => applyTransform(text, "jwtdecode")).toThrow(/^Not a JWT/);
+    });
+
+    it("refuses a payload that is not JSON", () => {
+        const jwt = `${part({ alg: "HS256" })}.${Buffer.from("hello").toString("base64url")}.sig`;
+        expect(() => applyTransform(jwt, "jwtdecode")).toThrow(/^The token's payload is not JSON/);
+    });
+});
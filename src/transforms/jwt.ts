@@ -0,0 +1,112 @@
+import { parseJson, stringifyJson, type JsonNode } from "./json.js";
+import { TransformError } from "./shared.js";
+import { localDate, localTime } from "./time.js";
+
+/**
+ * JWT decoding, for reading a token rather than trusting it.
+ *
+ * Nothing here verifies a signature, and nothing sends the token anywhere: both parts are base64url
+ * decoded in place. A decoded token says what it *claims*, which is exactly what someone debugging
+ * an auth failure wants to see — and exactly what must not be mistaken for proof.
+ */
+
+/**
+ * True when the value is a JSON Web Token.
+ *
+ * Checked by decoding the header and requiring it to be a JSON object with an `alg`, rather than
+ * matching the dot-separated shape — plenty of strings have two dots in them.
+ */
+export function isJwt(value: string): boolean {
+    const parts = value.split(".");
+    if (parts.length !== 3) return false;
+    // Header and payload must be base64url; the signature may legitimately be empty for alg=none.
+    if (!/^[A-Za-z0-9_-]+$/.test(parts[0]) || !/^[A-Za-z0-9_-]+$/.test(parts[1])) return false;
+    try {
+        const header: unknown = JSON.parse(Buffer.from(parts[0], "base64url").toString("utf8"));
+        return typeof header === "object" && header !== null
+            && typeof (header as { alg?: unknown }).alg === "string";
+    } catch {
+        return false;
+    }
+}
+
+/** The registered time claims, in the order a person reads a token's lifetime. */
+const TIME_CLAIMS = ["iat", "nbf", "exp"] as const;
+
+/** "3 minutes", "2 hours": whole units, switching up once the smaller one stops being readable. */
+function duration(ms: number): string {
+    const s = Math.round(Math.abs(ms) / 1000);
+    const [n, unit] =
+        s < 90 ? [s, "second"]
+        : s < 90 * 60 ? [Math.round(s / 60), "minute"]
+        : s < 36 * 3600 ? [Math.round(s / 3600), "hour"]
+        : [Math.round(s / 86400), "day"];
+    return `${n} ${unit}${n === 1 ? "" : "s"}`;
+}
+
+/** How a time claim stands relative to `now`, phrased for that claim. */
+function describeClaim(claim: (typeof TIME_CLAIMS)[number], at: number, now: number): string {
+    const past = at <= now;
+    const span = duration(at - now);
+    switch (claim) {
+        case "exp":
+            return past ? `expired ${span} ago` : `expires in ${span}`;
+        case "nbf":
+            return past ? `valid since ${span} ago` : `not valid for another ${span}`;
+        case "iat":
+            return past ? `issued ${span} ago` : `issued ${span} in the future — check the clocks`;
+    }
+}
+
+/**
+ * One line per time claim: the claim, its local date and time, and what it means now. Claims that
+ * are not NumericDates (seconds since the epoch, as RFC 7519 requires) are left to the JSON above.
+ */
+function claimLines(payload: JsonNode, now: number): string[] {
+    if (payload.type !== "object") return [];
+    return TIME_CLAIMS.flatMap(claim => {
+        const entry = payload.entries.find(([k]) => k === claim);
+        if (!entry || entry[1].type !== "number") return [];
+        const at = Number(entry[1].raw) * 1000;
+        if (!Number.isFinite(at)) return [];
+        const d = new Date(at);
+        return [`${claim}: ${localDate(d)} ${localTime(d)} — ${describeClaim(claim, at, now)}`];
+    });
+}
+
+/** Decodes one base64url part as JSON, naming the part when it is not. */
+function decodePart(part: string, name: string): JsonNode {
+    try {
+        return parseJson(Buffer.from(part, "base64url").toString("utf8"));
+    } catch (error) {
+        const reason = error instanceof TransformError ? error.message : String(error);
+        throw new TransformError(`The token's ${name} is not JSON: ${reason}`, `Bad\n${name}`);
+    }
+}
+
+/**
+ * Decodes a token to `{ "header": …, "payload": … }`, then — with `showDates` — a line for each
+ * time claim, such as `exp: 2026-10-18 14:03:00 — expired 12 minutes ago`.
+ *
+ * Surrounding whitespace is ignored, since a token copied from a header or a log line often brings
+ * a newline with it; a `Bearer ` prefix is not, as `isJwt` would not recognise it either.
+ *
+ * @throws TransformError when the text is not a JWT, or its payload is not JSON.
+ */
+export function decodeJwt(text: string, indent: string, showDates: boolean, now = Date.now()): string {
+    const token = text.trim();
+    if (!isJwt(token)) {
+        throw new TransformError(
+            "Not a JWT: expected three base64url parts separated by dots, with a JSON header naming its alg",
+            "Not a\nJWT"
+        );
+    }
+    const [header, payload] = token.split(".");
+    const decoded: JsonNode = {
+        type: "object",
+        entries: [["header", decodePart(header, "header")], ["payload", decodePart(payload, "payload")]],
+    };
+    const json = stringifyJson(decoded, indent);
+    const lines = showDates ? claimLines(decoded.entries[1][1], now) : [];
+    return lines.length ? `${json}\n\n${lines.join("\n")}` : json;
+}
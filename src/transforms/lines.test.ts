@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { applyTransform, type TransformType } from "../utils.js";
+import { numberLines, shuffleLines, sortLines } from "./lines.js";
+
+describe("line transforms", () => {
+    it("sorts numbers within lines by value", () => {
+        expect(sortLines("file10\nfile2\nfile1")).toBe("file1\nfile2\nfile10");
+    });
+
+    it("sorts accented letters beside their base letter", () => {
+        expect(sortLines("zebra\néclair\neagle")).toBe("eagle\néclair\nzebra");
+    });
+
+    it("removes repeated lines, keeping the first of each", () => {
+        expect(applyTransform("b\na\nb\nc\na", "uniquelines")).toBe("b\na\nc");
+    });
+
+    it("reverses", () => {
+        expect(applyTransform("1\n2\n3", "reverselines")).toBe("3\n2\n1");
+    });
+
+    it("shuffles without losing or adding lines", () => {
+        const lines = Array.from({ length: 50 }, (_, i) => `line ${i}`);
+        const shuffled = shuffleLines(lines.join("\n")).split("\n");
+        expect([...shuffled].sort()).toEqual([...lines].sort());
+    });
+
+    it("numbers every line, right-aligned", () => {
+        const text = Array.from({ length: 10 }, (_, i) => (i === 1 ? "" : `l${i}`)).join("\n");
+        const numbered = numberLines(text).split("\n");
+        expect(numbered[0]).toBe(" 1. l0");
+        expect(numbered[1]).toBe(" 2. ");
+        expect(numbered[9]).toBe("10. l9");
+    });
+
+    it("removes empty and whitespace-only lines", () => {
+        expect(applyTransform("a\n\n  \n\tb\n", "dropblanklines")).toBe("a\n\tb\n");
+    });
+
+    it.each([
+        "sortlines", "uniquelines", "reverselines", "shufflelines", "numberlines", "dropblanklines",
+    ] as TransformType[])("%s keeps CRLF and a final line break", transform => {
+        const result = applyTransform("b\r\na\r\n\r\nb\r\n", transform);
+        expect(result).toMatch(/\r\n$/);
+        expect(result.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+    });
+
+    it("keeps LF text LF and leaves off a final line break that was not there", () => {
+        expect(sortLines("b\na")).toBe("a\nb");
+        expect(sortLines("b\na\n")).toBe("a\nb\n");
+    });
+
+    it("writes mixed endings as CRLF", () => {
+        expect(applyTransform("b\r\na\nc", "sortlines")).toBe("a\r\nb\r\nc");
+    });
+});
+
+describe("indentation", () => {
+    it("dedents to the indentation every line shares", () => {
+        expect(applyTransform("        if (ok) {\n            run();\n\n        }\n", "dedent"))
+            .toBe("if (ok) {\n    run();\n\n}\n");
+    });
+
+    it("leaves text with an unindented line alone, and compares tabs and spaces as written", () => {
+        expect(applyTransform("a\n  b", "dedent")).toBe("a\n  b");
+        expect(applyTransform("\t\tx\n\t  y", "dedent")).toBe("\tx\n  y");
+    });
+
+    it("empties whitespace-only lines when dedenting", () => {
+        expect(applyTransform("    a\n  \n    b", "dedent")).toBe("a\n\nb");
+    });
+
+    it("indents every line but blank ones, by four spaces unless set", () => {
+        expect(applyTransform("a\n\nb\r\n", "indent")).toBe("    a\r\n\r\n    b\r\n");
+        expect(applyTransform("a\nb", "indent", { indentBy: "2" })).toBe("  a\n  b");
+        expect(applyTransform("a\nb", "indent", { indentBy: "tab" })).toBe("\ta\n\tb");
+    });
+});
+
+describe("wrapping", () => {
+    const PROSE = "The quick brown fox jumps over the lazy dog and keeps running.";
+
+    it("wraps long lines at spaces without splitting words", () => {
+        expect(applyTransform(PROSE, "hardwrap", { wrapColumn: "20" }))
+            .toBe("The quick brown fox\njumps over the lazy\ndog and keeps\nrunning.");
+    });
+
+    it("leaves short lines, and a word longer than the column, whole", () => {
+        expect(applyTransform("short\nhttps://example.com/a/very/long/path/indeed here", "hardwrap", { wrapColumn: "20" }))
+            .toBe("short\nhttps://example.com/a/very/long/path/indeed\nhere");
+    });
+
+    it("keeps indentation, quote markers and list items lined up", () => {
+        expect(applyTransform(`  - ${PROSE}`, "hardwrap", { wrapColumn: "30" }))
+            .toBe("  - The quick brown fox jumps\n    over the lazy dog and\n    keeps running.");
+        expect(applyTransform(`> ${PROSE}`, "hardwrap", { wrapColumn: "30" }))
+            .toBe("> The quick brown fox jumps\n> over the lazy dog and keeps\n> running.");
+    });
+
+    it("unwraps paragraphs, keeping the blank lines between them", () => {
+        expect(applyTransform("The quick brown\nfox jumps.\n\nOver the\n  lazy dog.\n", "unwrap"))
+            .toBe("The quick brown fox jumps.\n\nOver the lazy dog.\n");
+    });
+
+    it("keeps list items on their own lines and hyphenated words whole", () => {
+        expect(applyTransform("Steps:\n- open the\n  file\n1. save it\n\nA well-\nknown fact", "unwrap"))
+            .toBe("Steps:\n- open the file\n1. save it\n\nA well-known fact");
+    });
+
+    it("undoes a hard wrap", () => {
+        expect(applyTransform(applyTransform(PROSE, "hardwrap", { wrapColumn: "20" }), "unwrap")).toBe(PROSE);
+    });
+
+    it("unwraps quoted text inside its quote", () => {
+        expect(applyTransform("> a\n> b\n>\n> c\n> > d\n> > e\nf", "unwrap")).toBe("> a b\n>\n> c\n> > d e\nf");
+        const quoted = `> ${PROSE}`;
+        expect(applyTransform(applyTransform(quoted, "hardwrap", { wrapColumn: "20" }), "unwrap")).toBe(quoted);
+    });
+});
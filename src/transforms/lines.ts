@@ -0,0 +1,170 @@
+import { intOption, shuffle } from "./shared.js";
+
+/**
+ * Transforms that work on the text a line at a time: sort, unique, reverse, shuffle, number and
+ * drop blanks, and the ones that lay lines out: indent, dedent, wrap and unwrap.
+ *
+ * Each keeps the text's line endings. Text copied on Windows or out of an HTTP response uses CRLF,
+ * and handing it back as LF shows up as a whole-file change in version control. A final line
+ * ending stays final rather than becoming an empty line that sorts to the top.
+ */
+
+/**
+ * Splits into lines, applies `edit`, and joins them the way the text was joined: CRLF when any
+ * line ends that way, LF otherwise.
+ */
+export function editLines(text: string, edit: (lines: string[]) => string[]): string {
+    const eol = text.includes("\r\n") ? "\r\n" : "\n";
+    const trailing = /\r?\n$/.test(text);
+    const body = trailing ? text.replace(/\r?\n$/, "") : text;
+    const lines = edit(body.split(/\r?\n/));
+    return lines.join(eol) + (trailing && lines.length > 0 ? eol : "");
+}
+
+/**
+ * Sorted for people: in this computer's locale, so `é` sorts beside `e` rather than after `z`, and
+ * with runs of digits compared as numbers, so `file2` comes before `file10`. Equal lines keep
+ * their order.
+ */
+const COLLATOR = new Intl.Collator(undefined, { numeric: true });
+
+export function sortLines(text: string): string {
+    return editLines(text, lines => lines.sort(COLLATOR.compare));
+}
+
+/** Drops repeated lines, keeping the first of each where it was. Lines must match exactly. */
+export function uniqueLines(text: string): string {
+    return editLines(text, lines => [...new Set(lines)]);
+}
+
+export function reverseLines(text: string): string {
+    return editLines(text, lines => lines.reverse());
+}
+
+export function shuffleLines(text: string): string {
+    return editLines(text, shuffle);
+}
+
+/**
+ * Numbers every line from 1, blank ones included, as `nl -ba` does. Numbers are right-aligned to
+ * the widest, so the text after them stays in one column.
+ */
+export function numberLines(text: string): string {
+    return editLines(text, lines => {
+        const width = String(lines.length).length;
+        return lines.map((line, i) => `${String(i + 1).padStart(width)}. ${line}`);
+    });
+}
+
+/** Drops lines that are empty or only whitespace. */
+export function dropBlankLines(text: string): string {
+    return editLines(text, lines => lines.filter(line => line.trim() !== ""));
+}
+
+/** The indent setting: 1 to 16 spaces, or `tab`. Defaults to four spaces. */
+export function indentUnit(value: unknown): string {
+    if (value === "tab") return "\t";
+    return " ".repeat(intOption(value, 4, 1, 16));
+}
+
+/** The wrap column setting, 20 to 1000. Defaults to 80, the width terminals and commit bodies use. */
+export function wrapColumn(value: unknown): number {
+    return intOption(value, 80, 20, 1000);
+}
+
+const isBlank = (line: string) => line.trim() === "";
+
+/**
+ * Removes the indentation every line shares, as code copied out of a nested block has. Blank lines
+ * don't count towards it, and come back empty. Tabs and spaces are compared as written, so a tab
+ * never stands in for some number of spaces.
+ */
+export function dedent(text: string): string {
+    return editLines(text, lines => {
+        let common: string | null = null;
+        for (const line of lines) {
+            if (isBlank(line)) continue;
+            const indent = line.match(/^[ \t]*/)?.[0] ?? "";
+            if (common === null) {
+                common = indent;
+            } else {
+                let i = 0;
+                while (i < common.length && common[i] === indent[i]) i++;
+                common = common.slice(0, i);
+            }
+        }
+        return lines.map(line => (isBlank(line) ? "" : line.slice(common?.length ?? 0)));
+    });
+}
+
+/** Puts `unit` in front of every line but blank ones, which stay free of trailing whitespace. */
+export function indent(text: string, unit: string): string {
+    return editLines(text, lines => lines.map(line => (isBlank(line) ? line : unit + line)));
+}
+
+/**
+ * What a line starts with that its continuation lines should line up under: indentation, `>`
+ * quote markers, and a list bullet or number, which continuation lines are indented past.
+ */
+const LEAD = /^([ \t]*(?:>[ \t]?)*)((?:[-*+•]|\d+[.)])[ \t]+)?/;
+
+/**
+ * Breaks every line longer than `column` characters at spaces, so no word is cut in two; a word
+ * longer than the column gets a line to itself. Continuation lines keep the line's indentation and
+ * quote markers, and line up with the text of a list item rather than its bullet.
+ */
+export function hardWrap(text: string, column: number): string {
+    return editLines(text, lines => lines.flatMap(line => {
+        const length = (s: string) => Array.from(s).length;
+        if (length(line) <= column) return [line];
+        const [lead = "", margin = "", bullet = ""] = LEAD.exec(line) ?? [];
+        const words = line.slice(lead.length).trim().split(/\s+/);
+        const hanging = margin + " ".repeat(length(bullet));
+        const wrapped: string[] = [];
+        let current = lead + words[0];
+        for (const word of words.slice(1)) {
+            if (length(current) + 1 + length(word) > column) {
+                wrapped.push(current);
+                current = hanging + word;
+            } else {
+                current += ` ${word}`;
+            }
+        }
+        wrapped.push(current);
+        return wrapped;
+    }));
+}
+
+/** A line that starts a list item, and so starts a line of its own even inside a paragraph. */
+const LIST_ITEM = /^[ \t]*(?:[-*+•]|\d+[.)])[ \t]/;
+
+/**
+ * Joins the lines of each paragraph into one, as prose copied out of a PDF or a plain-text email
+ * needs. Paragraphs are separated by blank lines, which are kept, and a list item starts a new line
+ * rather than joining the one before. A line ending in a hyphen joins the next without a space,
+ * since `well-` and `known` are one word, though the hyphen stays, since so is `well-known`.
+ *
+ * Quoted text unwraps inside its quote: the `>` markers a continuation line repeats are dropped as
+ * it joins, so this undoes {@link hardWrap} there too. A line quoted more or less deeply than the
+ * one before starts a paragraph of its own, as does a `>` with nothing after it.
+ */
+export function unwrapParagraphs(text: string): string {
+    return editLines(text, lines => {
+        const joined: string[] = [];
+        // The `>` markers of the paragraph being joined, or null between paragraphs.
+        let quote: string | null = null;
+        for (const line of lines) {
+            const margin = LEAD.exec(line)?.[1] ?? "";
+            const markers = margin.replace(/[ \t]/g, "");
+            const body = line.slice(margin.length);
+            if (quote === null || quote !== markers || isBlank(body) || LIST_ITEM.test(body)) {
+                joined.push(isBlank(line) ? "" : line.trimEnd());
+                quote = isBlank(body) ? null : markers;
+            } else {
+                const head = joined[joined.length - 1].trimEnd();
+                joined[joined.length - 1] = head + (/\p{L}-$/u.test(head) ? "" : " ") + body.trim();
+            }
+        }
+        return joined;
+    });
+}
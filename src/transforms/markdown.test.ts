@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { applyTransform } from "../utils.js";
+import { failure } from "./testing.js";
+
+describe("markdown transforms", () => {
+    it("fences JSON with its language, and other text without one", () => {
+        expect(applyTransform('{"id": 42}\n', "mdcodeblock")).toBe('```json\n{"id": 42}\n```');
+        expect(applyTransform("npm run build", "mdcodeblock")).toBe("```\nnpm run build\n```");
+    });
+
+    it("makes the fence longer than any backticks inside", () => {
+        expect(applyTransform("Run:\n```sh\nmake\n```", "mdcodeblock")).toBe("````\nRun:\n```sh\nmake\n```\n````");
+    });
+
+    it("keeps CRLF line endings inside the fence", () => {
+        expect(applyTransform("a\r\nb\r\n", "mdcodeblock")).toBe("```\r\na\r\nb\r\n```");
+    });
+
+    it("quotes every line, keeping blank lines inside the quote", () => {
+        expect(applyTransform("First.\n\nSecond.\n", "mdquote")).toBe("> First.\n>\n> Second.\n");
+    });
+
+    it("bullets lines, replacing the markers they already have", () => {
+        expect(applyTransform("apples\n• pears\n\n3. plums\n    - ripe", "mdbullets"))
+            .toBe("- apples\n- pears\n- plums\n  - ripe");
+    });
+
+    it("keeps task checkboxes, replacing only the marker", () => {
+        expect(applyTransform("- [x] done\n* [ ] open", "mdbullets")).toBe("- [x] done\n- [ ] open");
+        expect(applyTransform("- [x] done\n- [ ] open", "mdnumbered")).toBe("1. [x] done\n2. [ ] open");
+    });
+
+    it("numbers each level of a nested list from 1, indented under its parent's text", () => {
+        expect(applyTransform("Build\n  lint\n  test\nDeploy\n  staging\nTidy up", "mdnumbered"))
+            .toBe("1. Build\n   1. lint\n   2. test\n2. Deploy\n   1. staging\n3. Tidy up");
+        const ten = Array.from({ length: 10 }, (_, i) => `step ${i + 1}`).join("\n");
+        expect(applyTransform(`${ten}\n\tdetail\n\t\tmore`, "mdnumbered").split("\n").slice(-3))
+            .toEqual(["10. step 10", "    1. detail", "       1. more"]);
+    });
+
+    it("refuses to make a list of nothing", () => {
+        expect(failure(() => applyTransform(" \n\n", "mdbullets")).keyTitle).toBe("Empty\nText");
+    });
+
+    it("links a URL with its host as the title", () => {
+        expect(applyTransform(" https://github.com/org/repo/pull/42 \n", "mdlink"))
+            .toBe("[github.com](https://github.com/org/repo/pull/42)");
+        expect(applyTransform("http://localhost:8080/", "mdlink")).toBe("[localhost:8080](http://localhost:8080/)");
+        expect(applyTransform("https://[::1]/a_(b)", "mdlink")).toBe("[\\[::1\\]](<https://[::1]/a_(b)>)");
+    });
+
+    it("refuses text that is not a whole URL", () => {
+        expect(failure(() => applyTransform("see https://example.com", "mdlink")).keyTitle).toBe("Not\nURL");
+    });
+
+    it("tables spreadsheet rows, splitting only at tabs", () => {
+        expect(applyTransform("Name\tAge\nSmith, John\t42\n", "mdtable"))
+            .toBe("| Name        | Age |\n| ----------- | --: |\n| Smith, John |  42 |");
+        expect(applyTransform("Name\nSmith, John\nDoe, Jane", "mdtable"))
+            .toBe("| Name        |\n| ----------- |\n| Smith, John |\n| Doe, Jane   |");
+    });
+});
@@ -0,0 +1,99 @@
+import { editLines } from "./lines.js";
+import { TransformError } from "./shared.js";
+
+/**
+ * Markdown for pasting into a pull request, an issue or a chat: a fenced code block, a
+ * blockquote, bullet and numbered lists, and a link from a bare URL. Tables from spreadsheet rows
+ * are the CSV module's.
+ *
+ * The line-by-line ones keep the text's line endings, as the Lines transforms do.
+ */
+
+/**
+ * The text in a fenced code block labelled `language`, or unlabelled when it is blank. The fence
+ * is one backtick longer than the longest run inside the text, so a snippet that holds a fence of
+ * its own, such as a README excerpt, does not close the block early.
+ */
+export function codeFence(text: string, language: string): string {
+    const eol = text.includes("\r\n") ? "\r\n" : "\n";
+    const longest = Math.max(2, ...[...text.matchAll(/`+/g)].map(([run]) => run.length));
+    const fence = "`".repeat(longest + 1);
+    const body = text.replace(/\r?\n$/, "");
+    return `${fence}${language}${eol}${body}${eol}${fence}`;
+}
+
+/** Each line quoted with `> `, and a blank line as a bare `>` so the quote does not end there. */
+export function blockquote(text: string): string {
+    return editLines(text, lines => lines.map(line => (line.trim() === "" ? ">" : `> ${line}`)));
+}
+
+/**
+ * A bullet or number the line already starts with, so it is replaced rather than doubled. A task
+ * checkbox after it is content, kept so a list of done and open items still says which is which.
+ */
+const MARKER = /^(\s*)(?:[-*+•]|\d+[.)])\s+/;
+
+/** A list item: how deeply it is nested, counting from 0, and its text after any old marker. */
+type ListItem = { depth: number; content: string };
+
+/**
+ * The non-blank lines as list items. Each deeper indentation opens a level and a shallower one
+ * closes back to the level it matches, so only the order of indents matters, not their width.
+ *
+ * @throws TransformError when there are none.
+ */
+function items(lines: string[]): ListItem[] {
+    const levels: number[] = [];
+    const found = lines.filter(line => line.trim() !== "").map(line => {
+        const marker = MARKER.exec(line);
+        const indentation = marker?.[1] ?? line.slice(0, line.length - line.trimStart().length);
+        const content = line.slice(marker ? marker[0].length : indentation.length);
+        while (levels.length > 0 && levels[levels.length - 1] > indentation.length) levels.pop();
+        if (levels.length === 0 || levels[levels.length - 1] < indentation.length) levels.push(indentation.length);
+        return { depth: levels.length - 1, content };
+    });
+    if (found.length === 0) throw new TransformError("There are no lines to make a list of", "Empty\nText");
+    return found;
+}
+
+/**
+ * Each line a `- ` bullet, and an indented run a list nested in the item above it. Blank lines
+ * are dropped, since they would make a loose list with paragraphs between the items.
+ *
+ * @throws TransformError when there are no lines to list.
+ */
+export function bulletList(text: string): string {
+    return editLines(text, lines => items(lines).map(({ depth, content }) => `${"  ".repeat(depth)}- ${content}`));
+}
+
+/**
+ * Each line a numbered item, counting from 1 at each level: an indented run is a nested list,
+ * and the outer count carries on after it. A nested item is indented to its parent's text rather
+ * than kept as it was, since Markdown reads anything less as a sibling: under `10. ` that is four
+ * spaces, not two.
+ *
+ * @throws TransformError when there are no lines to list.
+ */
+export function numberedList(text: string): string {
+    return editLines(text, lines => {
+        const counts: number[] = [];
+        const indents = [""];
+        return items(lines).map(({ depth, content }) => {
+            counts.length = depth + 1;
+            counts[depth] = (counts[depth] ?? 0) + 1;
+            const marker = `${counts[depth]}. `;
+            indents.length = depth + 1;
+            indents.push(indents[depth] + " ".repeat(marker.length));
+            return `${indents[depth]}${marker}${content}`;
+        });
+    });
+}
+
+/**
+ * `[title](url)`. The title's brackets are escaped, as an IPv6 host has them, and a URL with
+ * parentheses in it is written `<url>`, where an unmatched one cannot end the link early.
+ */
+export function markdownLink(url: string, title: string): string {
+    const destination = /[()]/.test(url) ? `<${url}>` : url;
+    return `[${title.replace(/[[\]\\]/g, "\\$&")}](${destination})`;
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { applyTransform } from "../utils.js";
+import { failure } from "./testing.js";
+
+describe("base conversions", () => {
+    it("convert between decimal, hex, octal and binary", () => {
+        expect(applyTransform("255", "numtohex")).toBe("0xff");
+        expect(applyTransform("0xFF", "numtodec")).toBe("255");
+        expect(applyTransform("0o755", "numtobin")).toBe("0b111101101");
+        expect(applyTransform("0b1010", "numtooct")).toBe("0o12");
+        expect(applyTransform("-42", "numtohex")).toBe("-0x2a");
+        expect(applyTransform("1_000_000", "numtohex")).toBe("0xf4240");
+    });
+
+    it("keep 64-bit ids exact", () => {
+        expect(applyTransform("18446744073709551615", "numtohex")).toBe("0xffffffffffffffff");
+        expect(applyTransform("0x7fffffffffffffff", "numtodec")).toBe("9223372036854775807");
+    });
+
+    it("refuse what is not a whole number, with the reason", () => {
+        expect(failure(() => applyTransform("1.5", "numtohex")).keyTitle).toBe("Not\nWhole");
+        expect(failure(() => applyTransform("ff", "numtodec")).message)
+            .toBe('Not a number: "ff"; write hex with a 0x prefix, as in 0xff');
+        expect(failure(() => applyTransform("twelve", "numtobin")).keyTitle).toBe("Not\nNumber");
+        expect(failure(() => applyTransform("1e3", "numtohex")).message)
+            .toBe('Not a number: "1e3"; write it out in full, not in exponent notation');
+        expect(failure(() => applyTransform("fe3", "numtodec")).message).toMatch(/as in 0xfe3$/);
+        expect(failure(() => applyTransform("0b102", "numtodec")).keyTitle).toBe("Not\nNumber");
+    });
+});
+
+describe("byte sizes", () => {
+    it("humanise a byte count to three significant figures", () => {
+        expect(applyTransform("1536000", "humanbytes")).toBe("1.46 MiB");
+        expect(applyTransform("512", "humanbytes")).toBe("512 B");
+        expect(applyTransform("1024", "humanbytes")).toBe("1 KiB");
+        expect(applyTransform("15728640 bytes", "humanbytes")).toBe("15 MiB");
+        expect(applyTransform("1,073,741,824", "humanbytes")).toBe("1 GiB");
+        expect(applyTransform("1048575", "humanbytes")).toBe("1 MiB");
+        expect(applyTransform(String(1024n ** 9n - 1n), "humanbytes")).toBe("1024 YiB");
+        expect(applyTransform(String(3n * 1024n ** 8n), "humanbytes")).toBe("3 YiB");
+    });
+
+    it("parse a size back, telling binary and decimal units apart", () => {
+        expect(applyTransform("1.46 MiB", "parsebytes")).toBe("1530921");
+        expect(applyTransform("1.5 MB", "parsebytes")).toBe("1500000");
+        expect(applyTransform("200kB", "parsebytes")).toBe("200000");
+        expect(applyTransform("4K", "parsebytes")).toBe("4096");
+        expect(applyTransform("16 EiB", "parsebytes")).toBe("18446744073709551616");
+        expect(applyTransform("12", "parsebytes")).toBe("12");
+    });
+
+    it("refuse what is not a size", () => {
+        expect(failure(() => applyTransform("1.5 MiB", "humanbytes")).message)
+            .toBe('Not a number: "1.5 MiB"; expected a whole number of bytes');
+        expect(failure(() => applyTransform("9".repeat(400), "humanbytes")).keyTitle).toBe("Too\nLarge");
+        expect(failure(() => applyTransform("1,2345", "humanbytes")).keyTitle).toBe("Not\nNumber");
+        expect(failure(() => applyTransform("12,34,567", "humanbytes")).keyTitle).toBe("Not\nNumber");
+        expect(failure(() => applyTransform("1234,567", "humanbytes")).keyTitle).toBe("Not\nNumber");
+        expect(failure(() => applyTransform("lots", "parsebytes")).keyTitle).toBe("Not\nNumber");
+        expect(failure(() => applyTransform("5 iB", "parsebytes")).keyTitle).toBe("Not\nNumber");
+    });
+});
+
+describe("thousands separators", () => {
+    it("group as the locale writes numbers", () => {
+        expect(applyTransform("1234567.89", "addseparators", { numberLocale: "en-US" })).toBe("1,234,567.89");
+        expect(applyTransform("1234567.89", "addseparators", { numberLocale: "de-DE" })).toBe("1.234.567,89");
+        expect(applyTransform("-1234567", "addseparators", { numberLocale: "en-IN" })).toBe("-12,34,567");
+        expect(applyTransform("18446744073709551615", "addseparators", { numberLocale: "en-US" }))
+            .toBe("18,446,744,073,709,551,615");
+    });
+
+    it("strip them back to plain digits", () => {
+        expect(applyTransform("1,234,567.89", "stripseparators", { numberLocale: "en-US" })).toBe("1234567.89");
+        expect(applyTransform("1.234.567,89", "stripseparators", { numberLocale: "de-DE" })).toBe("1234567.89");
+        expect(applyTransform("1 234 567,5", "stripseparators", { numberLocale: "fr-FR" })).toBe("1234567.5");
+        expect(applyTransform("1'234'567", "stripseparators", { numberLocale: "de-CH" })).toBe("1234567");
+        expect(applyTransform("1234", "stripseparators", { numberLocale: "en-US" })).toBe("1234");
+    });
+
+    it("refuse separators that are not where the locale puts them", () => {
+        expect(failure(() => applyTransform("1,234.5", "stripseparators", { numberLocale: "de-DE" })).keyTitle)
+            .toBe("Not\nNumber");
+        expect(failure(() => applyTransform("12,34", "stripseparators", { numberLocale: "en-US" })).keyTitle)
+            .toBe("Bad\nGrouping");
+        expect(failure(() => applyTransform("1,234", "addseparators", { numberLocale: "en-US" })).keyTitle)
+            .toBe("Not\nNumber");
+    });
+
+    it("refuse an unknown locale", () => {
+        expect(failure(() => applyTransform("1234", "addseparators", { numberLocale: "not a locale" })).keyTitle)
+            .toBe("Bad\nLocale");
+    });
+});
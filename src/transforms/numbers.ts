@@ -0,0 +1,174 @@
+import { TransformError } from "./shared.js";
+
+/**
+ * Numbers: between decimal, hex, octal and binary, byte counts to and from sizes a person reads,
+ * and thousands separators in and out.
+ *
+ * Whole numbers go through BigInt, so a 64-bit id converts exactly rather than as the nearest
+ * double. Each transform takes one number, and refuses anything else with the reason, since a
+ * number that passed through unconverted looks too much like one that was converted.
+ */
+
+function notANumber(text: string, hint = ""): never {
+    throw new TransformError(`Not a number: "${text.trim()}"${hint}`, "Not\nNumber");
+}
+
+/**
+ * Reads a whole number in decimal, or in hex, octal or binary with a `0x`, `0o` or `0b` prefix.
+ * Underscores between digits, as in `1_000_000`, are ignored.
+ *
+ * @throws TransformError when the text is not a whole number, saying why when it is nearly one.
+ */
+function parseInteger(text: string): bigint {
+    const compact = text.trim().replace(/(?<=[\da-f])_(?=[\da-f])/gi, "");
+    const m = /^([-+]?)(0x[\da-f]+|0o[0-7]+|0b[01]+|\d+)$/i.exec(compact);
+    if (m) {
+        const magnitude = BigInt(m[2].replace(/^0([xob])/i, (_, base: string) => `0${base.toLowerCase()}`));
+        return m[1] === "-" ? -magnitude : magnitude;
+    }
+    if (/^[-+]?\d*\.\d+$/.test(compact)) {
+        throw new TransformError(
+            `"${compact}" is not a whole number, and only whole numbers convert between bases`,
+            "Not\nWhole"
+        );
+    }
+    // `1e3` is all hex digits too, but far more likely meant as a thousand.
+    if (/^[-+]?(?:\d+\.?\d*|\.\d+)e[-+]?\d+$/i.test(compact)) notANumber(text, "; write it out in full, not in exponent notation");
+    if (/^[\da-f]+$/i.test(compact)) notANumber(text, `; write hex with a 0x prefix, as in 0x${compact}`);
+    return notANumber(text);
+}
+
+const PREFIXES: Readonly<Record<number, string>> = { 10: "", 16: "0x", 8: "0o", 2: "0b" };
+
+/** The number in base 10, 16, 8 or 2, prefixed as JavaScript, Python and Rust all read it. */
+export function toBase(text: string, base: 10 | 16 | 8 | 2): string {
+    const n = parseInteger(text);
+    const magnitude = n < 0n ? -n : n;
+    return `${n < 0n ? "-" : ""}${PREFIXES[base]}${magnitude.toString(base)}`;
+}
+
+/** IEC units, each 1024 times the last, so the name says which is meant: a MiB is never a million bytes. */
+const BINARY_UNITS = ["B", "KiB", "MiB", "GiB", "TiB", "PiB", "EiB", "ZiB", "YiB"];
+
+/**
+ * A byte count as a size a person reads, to three significant figures: `1536000` is `1.46 MiB`.
+ *
+ * @throws TransformError when the text is not a whole number of bytes, or is 1024 YiB or more,
+ * past the largest unit there is.
+ */
+export function humanizeBytes(text: string): string {
+    const written = text.trim().replace(/\s*(?:b|bytes?)$/i, "");
+    // Separators only where they group every digit in threes, so `1,2345` is refused, not read as 12345.
+    const digits = /^\d{1,3}([_,])\d{3}(?:\1\d{3})*$/.test(written) ? written.replace(/[_,]/g, "") : written;
+    if (!/^\d+$/.test(digits)) notANumber(text, "; expected a whole number of bytes");
+    const bytes = BigInt(digits);
+    if (bytes < 1024n) return `${bytes} B`;
+    if (bytes >= 1024n ** BigInt(BINARY_UNITS.length)) {
+        throw new TransformError(`${digits} bytes is more than 1024 YiB, the largest unit there is`, "Too\nLarge");
+    }
+    let unit = 1;
+    while (unit < BINARY_UNITS.length - 1 && bytes >= 1024n ** BigInt(unit + 1)) unit++;
+    // Divided in integers, so a count too big for a double still comes out right; six decimals is
+    // more than the three figures shown need.
+    const value = Number((bytes * 1_000_000n) / 1024n ** BigInt(unit)) / 1_000_000;
+    let shown = Number(value.toFixed(value >= 100 ? 0 : value >= 10 ? 1 : 2));
+    // 1023.9 KiB rounds to 1024 KiB, which is better written as the 1 MiB it is.
+    if (shown >= 1024 && unit < BINARY_UNITS.length - 1) {
+        shown = 1;
+        unit++;
+    }
+    return `${shown} ${BINARY_UNITS[unit]}`;
+}
+
+const PREFIX_POWERS: Readonly<Record<string, number>> = { "": 0, k: 1, m: 2, g: 3, t: 4, p: 5, e: 6, z: 7, y: 8 };
+
+/**
+ * A size back to a byte count, rounded to a whole byte. `KiB` and friends are powers of 1024 and
+ * `kB` and friends powers of 1000; a bare `K`, `M` or `G` is 1024, as `ls -h` and `du -h` mean it.
+ *
+ * @throws TransformError when the text is not a number and a unit.
+ */
+export function parseBytes(text: string): string {
+    const m = /^(\d+(?:\.\d+)?|\.\d+)\s*([kmgtpezy]?)(i?)(b|bytes?)?$/i.exec(text.trim());
+    if (!m || (m[3] !== "" && m[2] === "")) notANumber(text, "; expected a size such as 1.5 MiB or 200 kB");
+    const [, amount, prefix, binary, bytes] = m;
+    const power = PREFIX_POWERS[prefix.toLowerCase()];
+    const base = binary !== "" || (bytes === undefined && prefix !== "") ? 1024n : 1000n;
+    const [whole, fraction = ""] = amount.split(".");
+    const scale = 10n ** BigInt(fraction.length);
+    const exact = BigInt(whole + fraction) * base ** BigInt(power);
+    // Half up, in integers, so an exbibyte is exact where a double would not be.
+    return String((exact * 2n + scale) / (2n * scale));
+}
+
+/**
+ * Reads the locale setting: a BCP 47 tag such as `de-DE`, or blank for this computer's own,
+ * which is what `undefined` means to `Intl`.
+ *
+ * @throws TransformError when the tag is not one `Intl` accepts.
+ */
+export function localeOption(value: unknown): string | undefined {
+    const locale = typeof value === "string" ? value.trim() : "";
+    if (locale === "") return undefined;
+    try {
+        return Intl.getCanonicalLocales(locale)[0];
+    } catch {
+        throw new TransformError(`Unknown locale "${locale}"; use a tag such as en-US, de-DE or fr-FR`, "Bad\nLocale");
+    }
+}
+
+/** Digits stay Western Arabic whatever the locale, since the result is usually going into a form or code. */
+function formatter(locale: string | undefined): Intl.NumberFormat {
+    return new Intl.NumberFormat(locale, { numberingSystem: "latn", useGrouping: true });
+}
+
+/** The locale's group and decimal separators. */
+function separators(locale: string | undefined): { group: string; decimal: string } {
+    const parts = formatter(locale).formatToParts(1234567.5);
+    return {
+        group: parts.find(p => p.type === "group")?.value ?? ",",
+        decimal: parts.find(p => p.type === "decimal")?.value ?? ".",
+    };
+}
+
+/**
+ * A plain number, such as `1234567.89`, grouped as the locale writes it: `1,234,567.89` in the US,
+ * `1.234.567,89` in Germany, `12,34,567.89` in India.
+ *
+ * @throws TransformError when the text is not a plain number.
+ */
+export function addSeparators(text: string, locale: string | undefined): string {
+    const m = /^([-+]?)(\d+)(?:\.(\d+))?$/.exec(text.trim());
+    if (!m) notANumber(text, "; expected digits with at most a decimal point, such as 1234567.89");
+    const [, sign, whole, fraction] = m;
+    const grouped = formatter(locale).format(BigInt(whole));
+    return `${sign === "-" ? "-" : ""}${grouped}${fraction === undefined ? "" : separators(locale).decimal + fraction}`;
+}
+
+/**
+ * A number as the locale writes it, back to plain digits with a `.` for the decimal point:
+ * `1.234.567,89` in German is `1234567.89`.
+ *
+ * @throws TransformError when the text is not a number, or its separators are not where the locale
+ * puts them — so `1,234.5` read as German is refused rather than turned into `1.2345`.
+ */
+export function stripSeparators(text: string, locale: string | undefined): string {
+    const { group, decimal } = separators(locale);
+    let written = text.trim().replace(/^\u2212/, "-");
+    // People type an ordinary space or apostrophe where the locale groups with a no-break space or ’.
+    if (/\s/.test(group)) written = written.replace(/\s/g, group);
+    if (group === "\u2019") written = written.replace(/'/g, group);
+    const [whole, fraction, ...rest] = written.split(decimal);
+    const m = /^([-+]?)(\d.*)$/s.exec(whole);
+    const digits = m?.[2].split(group).join("") ?? "";
+    if (!m || rest.length > 0 || !/^\d+$/.test(digits) || (fraction !== undefined && !/^\d+$/.test(fraction))) {
+        notANumber(text, ` as ${locale ?? "this computer"} writes numbers`);
+    }
+    if (m[2] !== digits && formatter(locale).format(BigInt(digits)) !== m[2]) {
+        throw new TransformError(
+            `The separators in "${text.trim()}" are not where ${locale ?? "this computer"} puts them`,
+            "Bad\nGrouping"
+        );
+    }
+    return `${m[1] === "-" ? "-" : ""}${digits}${fraction === undefined ? "" : `.${fraction}`}`;
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { applyTransform, isGenerator, isSecret } from "../utils.js";
+import {
+    classOption, generatePassphrase, generatePassword, passphraseBits, passphrasePolicy, passwordBits, passwordPolicy,
+} from "./password.js";
+import { WORDS } from "./wordlist.js";
+
+const count = (text: string, pattern: RegExp) => (text.match(pattern) ?? []).length;
+
+describe("password", () => {
+    it("is a generator whose output is a secret", () => {
+        for (const t of ["password", "passphrase"] as const) {
+            expect(isGenerator(t)).toBe(true);
+            expect(isSecret(t)).toBe(true);
+        }
+        expect(isSecret("randomstring")).toBe(false);
+    });
+
+    it("defaults to 20 characters with every class and no look-alikes", () => {
+        const password = applyTransform("clipboard", "password");
+        expect(Array.from(password)).toHaveLength(20);
+        expect(password).toMatch(/[a-z]/);
+        expect(password).toMatch(/[A-Z]/);
+        expect(password).toMatch(/[0-9]/);
+        expect(password).toMatch(/[^A-Za-z0-9]/);
+        expect(password).not.toMatch(/[Il1O0o|'"`]/);
+    });
+
+    it("meets every minimum, wherever the shuffle puts them", () => {
+        const policy = passwordPolicy({ passwordLength: "12", passwordDigits: "4", passwordSymbols: "3" });
+        for (let i = 0; i < 50; i++) {
+            const password = generatePassword(policy);
+            expect(count(password, /[0-9]/g)).toBeGreaterThanOrEqual(4);
+            expect(count(password, /[^A-Za-z0-9]/g)).toBeGreaterThanOrEqual(3);
+            expect(password).toMatch(/[a-z]/);
+            expect(password).toMatch(/[A-Z]/);
+        }
+    });
+
+    it("leaves out a class that is off and may leave out one that is only allowed", () => {
+        const digitsOnly = passwordPolicy({ passwordLower: "off", passwordUpper: "off", passwordSymbols: "off" });
+        expect(generatePassword(digitsOnly)).toMatch(/^[2-9]{20}$/);
+        const allowed = passwordPolicy({ passwordLength: "8", passwordLower: "0", passwordUpper: "off", passwordDigits: "8", passwordSymbols: "off" });
+        expect(generatePassword(allowed)).toMatch(/^[2-9]{8}$/);
+    });
+
+    it("keeps look-alikes when asked", () => {
+        const policy = passwordPolicy({
+            passwordLength: "128", passwordLower: "off", passwordUpper: "off", passwordSymbols: "off",
+            passwordExcludeSimilar: false,
+        });
+        expect(new Set(generatePassword(policy)).has("0")).toBe(true);
+    });
+
+    it("clamps the length", () => {
+        expect(generatePassword(passwordPolicy({ passwordLength: "3" }))).toHaveLength(8);
+        expect(generatePassword(passwordPolicy({ passwordLength: 1000 }))).toHaveLength(128);
+    });
+
+    it("refuses minimums longer than the password", () => {
+        expect(() => generatePassword(passwordPolicy({ passwordLength: "8", passwordDigits: "6", passwordSymbols: "3" })))
+            .toThrow("The minimums add up to 11 characters, more than the length of 8");
+    });
+
+    it("refuses a policy with every class off", () => {
+        const policy = passwordPolicy({ passwordLower: "off", passwordUpper: "off", passwordDigits: "off", passwordSymbols: "off" });
+        expect(() => generatePassword(policy)).toThrow(/at least one character class/);
+    });
+
+    it("reads each class setting as off or a minimum", () => {
+        expect(classOption("off")).toBeNull();
+        expect(classOption(undefined)).toBe(1);
+        expect(classOption("0")).toBe(0);
+        expect(classOption("3")).toBe(3);
+    });
+
+    it("estimates the strength from the pool", () => {
+        // 16 × log2(56): 24 + 24 letters and 8 digits once look-alikes are gone.
+        expect(passwordBits(passwordPolicy({ passwordLength: "16", passwordSymbols: "off" }))).toBe(92);
+    });
+});
+
+describe("passphrase", () => {
+    it("has one word per roll of four dice, with none repeated", () => {
+        expect(WORDS).toHaveLength(1296);
+        expect(new Set(WORDS).size).toBe(1296);
+        for (const word of WORDS) expect(word).toMatch(/^[a-z]{3,6}$/);
+    });
+
+    it("defaults to six listed words joined with hyphens", () => {
+        const words = applyTransform("", "passphrase").split("-");
+        expect(words).toHaveLength(6);
+        for (const word of words) expect(WORDS).toContain(word);
+    });
+
+    it("uses the separator, capitals and digit from the settings", () => {
+        const phrase = generatePassphrase(passphrasePolicy({
+            passphraseWords: "4", passphraseSeparator: " ", passphraseCapitalize: true, passphraseDigit: "true",
+        }));
+        const words = phrase.split(" ");
+        expect(words).toHaveLength(4);
+        for (const word of words) expect(word).toMatch(/^[A-Z][a-z]+[0-9]?$/);
+        expect(count(phrase, /[0-9]/g)).toBe(1);
+    });
+
+    it("runs the words together when the separator is empty", () => {
+        expect(generatePassphrase(passphrasePolicy({ passphraseWords: "3", passphraseSeparator: "" }))).toMatch(/^[a-z]{9,18}$/);
+    });
+
+    it("estimates about 10.3 bits a word", () => {
+        expect(passphraseBits(passphrasePolicy({}))).toBe(62);
+        expect(passphraseBits(passphrasePolicy({ passphraseWords: "8" }))).toBe(82);
+    });
+});
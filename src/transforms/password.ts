@@ -0,0 +1,141 @@
+import { randomInt } from "node:crypto";
+import { boolOption, intOption, shuffle, TransformError } from "./shared.js";
+import { WORDS } from "./wordlist.js";
+
+/**
+ * Password and passphrase generators. `crypto.randomInt` is the only source of randomness, for
+ * every draw and for the shuffle: it is unbiased for any range, which masking or `%` on random
+ * bytes is not, and `Math.random` is not a secure generator at all.
+ */
+
+/** Characters that read alike in many fonts, dropped when look-alikes are excluded. */
+const SIMILAR = new Set("Il1O0o|'\"`");
+
+const CLASSES = {
+    lower: "abcdefghijklmnopqrstuvwxyz",
+    upper: "ABCDEFGHIJKLMNOPQRSTUVWXYZ",
+    digits: "0123456789",
+    symbols: "!\"#$%&'()*+,-./:;<=>?@[\\]^_`{|}~",
+} as const;
+
+export type CharacterClass = keyof typeof CLASSES;
+
+/**
+ * A password policy. Each class is `null` when turned off, or the least number of its characters
+ * the password must contain, where 0 means allowed but not required.
+ */
+export type PasswordPolicy = {
+    length: number;
+    classes: Record<CharacterClass, number | null>;
+    excludeSimilar: boolean;
+};
+
+/** One character class setting, as the property inspector writes it: `off`, or a minimum count. */
+export function classOption(value: unknown): number | null {
+    if (value === "off" || value === false) return null;
+    return intOption(value, 1, 0, 32);
+}
+
+/** The policy in the key's settings; every class is on with a minimum of one unless set otherwise. */
+export function passwordPolicy(options: {
+    passwordLength?: unknown;
+    passwordLower?: unknown;
+    passwordUpper?: unknown;
+    passwordDigits?: unknown;
+    passwordSymbols?: unknown;
+    passwordExcludeSimilar?: unknown;
+}): PasswordPolicy {
+    return {
+        length: intOption(options.passwordLength, 20, 8, 128),
+        classes: {
+            lower: classOption(options.passwordLower),
+            upper: classOption(options.passwordUpper),
+            digits: classOption(options.passwordDigits),
+            symbols: classOption(options.passwordSymbols),
+        },
+        excludeSimilar: boolOption(options.passwordExcludeSimilar, true),
+    };
+}
+
+/** The characters each enabled class may use under the policy. */
+function pools(policy: PasswordPolicy): { pool: string[]; min: number }[] {
+    return (Object.keys(CLASSES) as CharacterClass[])
+        .filter(c => policy.classes[c] !== null)
+        .map(c => ({
+            pool: Array.from(CLASSES[c]).filter(ch => !policy.excludeSimilar || !SIMILAR.has(ch)),
+            min: policy.classes[c] ?? 0,
+        }));
+}
+
+/**
+ * A password meeting the policy: each class's minimum drawn from that class, the rest from every
+ * enabled class together, then shuffled so the required characters are not always at the front.
+ *
+ * @throws TransformError when no class is enabled, or the minimums need more characters than the length.
+ */
+export function generatePassword(policy: PasswordPolicy): string {
+    const classes = pools(policy);
+    if (classes.length === 0) {
+        throw new TransformError("Turn on at least one character class", "No\nClasses");
+    }
+    const required = classes.reduce((sum, c) => sum + c.min, 0);
+    if (required > policy.length) {
+        throw new TransformError(
+            `The minimums add up to ${required} characters, more than the length of ${policy.length}`,
+            "Too\nShort"
+        );
+    }
+    const union = classes.flatMap(c => c.pool);
+    const chars = [
+        ...classes.flatMap(c => Array.from({ length: c.min }, () => c.pool[randomInt(c.pool.length)])),
+        ...Array.from({ length: policy.length - required }, () => union[randomInt(union.length)]),
+    ];
+    return shuffle(chars).join("");
+}
+
+/**
+ * Roughly how many bits a password under the policy carries, for the picker to show. Counts every
+ * position as a draw from all enabled classes, which overstates it slightly when minimums apply.
+ */
+export function passwordBits(policy: PasswordPolicy): number {
+    const size = pools(policy).reduce((sum, c) => sum + c.pool.length, 0);
+    return size === 0 ? 0 : Math.floor(policy.length * Math.log2(size));
+}
+
+export type PassphrasePolicy = {
+    words: number;
+    separator: string;
+    capitalize: boolean;
+    /** Adds a digit to the end of one word, for sites that insist on one. */
+    digit: boolean;
+};
+
+/** The passphrase settings: six lowercase words joined with hyphens unless set otherwise. */
+export function passphrasePolicy(options: {
+    passphraseWords?: unknown;
+    passphraseSeparator?: unknown;
+    passphraseCapitalize?: unknown;
+    passphraseDigit?: unknown;
+}): PassphrasePolicy {
+    return {
+        words: intOption(options.passphraseWords, 6, 3, 12),
+        // An empty separator is a choice, so only a missing one takes the default.
+        separator: typeof options.passphraseSeparator === "string" ? options.passphraseSeparator : "-",
+        capitalize: boolOption(options.passphraseCapitalize, false),
+        digit: boolOption(options.passphraseDigit, false),
+    };
+}
+
+/** Diceware-style: words drawn independently from {@link WORDS}, so repeats are possible, as with dice. */
+export function generatePassphrase(policy: PassphrasePolicy): string {
+    const words = Array.from({ length: policy.words }, () => WORDS[randomInt(WORDS.length)])
+        .map(w => policy.capitalize ? w[0].toUpperCase() + w.slice(1) : w);
+    if (policy.digit) words[randomInt(words.length)] += String(randomInt(10));
+    return words.join(policy.separator);
+}
+
+/** Bits of a passphrase under the policy; the digit, when added, is counted with where it went. */
+export function passphraseBits(policy: PassphrasePolicy): number {
+    const digit = policy.digit ? Math.log2(10 * policy.words) : 0;
+    return Math.floor(policy.words * Math.log2(WORDS.length) + digit);
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { applyTransform, TransformError } from "../utils.js";
+import { expandReplacement, findNestedQuantifier, regexReplace } from "./regex.js";
+
+const replace = (text: string, regexPattern: string, regexReplacement = "", regexFlags?: string) =>
+    applyTransform(text, "regexreplace", { regexPattern, regexReplacement, regexFlags });
+
+describe("regexreplace", () => {
+    it("replaces every match by default", () => {
+        expect(replace("a1b22c333", "\\d+", "#")).toBe("a#b#c#");
+    });
+
+    it("replaces only the first match without the g flag", () => {
+        expect(replace("a1b22", "\\d+", "#", "")).toBe("a#b22");
+    });
+
+    it("expands numbered and named capture groups", () => {
+        expect(replace("2024-03-09", "(\\d{4})-(\\d{2})-(\\d{2})", "$3/$2/$1")).toBe("09/03/2024");
+        expect(replace("Ada Lovelace", "(?<first>\\w+) (?<last>\\w+)", "$<last>, $<first>")).toBe("Lovelace, Ada");
+        expect(replace("cat", "a", "[$&]")).toBe("c[a]t");
+    });
+
+    it("honours flags", () => {
+        expect(replace("Cat cAT", "cat", "dog", "gi")).toBe("dog dog");
+        expect(replace("one\ntwo", "^", "> ", "gm")).toBe("> one\n> two");
+    });
+
+    it("replaces from the start of the text with the sticky flag", () => {
+        expect(replace("aab", "a", "x", "y")).toBe("xab");
+    });
+
+    it("expands \\n and \\t in the replacement", () => {
+        expect(replace("a,b", ",", "\\n")).toBe("a\nb");
+        expect(expandReplacement("\\t|\\\\n|$1")).toBe("\t|\\n|$1");
+    });
+
+    it("refuses an empty pattern", () => {
+        expect(() => replace("text", "")).toThrow(/No pattern/);
+    });
+
+    it("refuses an invalid pattern with the engine's reason", () => {
+        expect(() => replace("text", "(unclosed")).toThrow(/^Invalid pattern: .*Unterminated group/);
+    });
+
+    it("refuses unknown flags", () => {
+        expect(() => replace("text", "t", "", "gx")).toThrow(/Unsupported regex flags "gx"/);
+    });
+
+    it("refuses a catastrophic pattern before running it", () => {
+        expect(() => replace("a".repeat(40) + "!", "^(a+)+$")).toThrow(/\(a\+\)\+ repeats something/);
+    });
+
+    it("gives up on runaway backtracking the heuristic misses", () => {
+        // Overlapping alternatives backtrack exponentially without any nested quantifier.
+        const start = Date.now();
+        let error: unknown;
+        try {
+            replace("a".repeat(40) + "!", "^(a|a)*$");
+        } catch (e) {
+            error = e;
+        }
+        expect(error).toBeInstanceOf(TransformError);
+        expect((error as TransformError).keyTitle).toBe("Too\nSlow");
+        expect(Date.now() - start).toBeLessThan(2000);
+    });
+});
+
+describe("regexReplace", () => {
+    it("counts the matches", () => {
+        expect(regexReplace("a1b22c333", "\\d+", "#")).toEqual({ matches: 3, output: "a#b#c#" });
+        expect(regexReplace("a1b22", "\\d+", "#", "")).toEqual({ matches: 1, output: "a#b22" });
+        expect(regexReplace("abc", "\\d", "#")).toEqual({ matches: 0, output: "abc" });
+    });
+
+    it("counts empty matches without looping", () => {
+        expect(regexReplace("ab", "x*", "-")).toEqual({ matches: 3, output: "-a-b-" });
+    });
+});
+
+describe("findNestedQuantifier", () => {
+    it.each([
+        ["(a+)+", "(a+)+"],
+        ["^(\\d+,?)*$", "(\\d+,?)*"],
+        ["(x|y*)+", "(x|y*)+"],
+        ["((ab)+)*", "((ab)+)*"],
+        ["(?:\\w{2,})+?", "(?:\\w{2,})+?"],
+    ])("finds %s", (pattern, group) => expect(findNestedQuantifier(pattern)).toBe(group));
+
+    it.each([
+        "(\\w+\\s)+",
+        "(a+)",
+        "(a+){2,3}",
+        "[(a+)+]",
+        "\\(a+\\)+",
+        "(?<year>\\d{4})-(\\d{2})",
+        "(a{3})+",
+    ])("allows %s", pattern => expect(findNestedQuantifier(pattern)).toBeNull());
+});
@@ -0,0 +1,173 @@
+import { runInNewContext } from "node:vm";
+import { TransformError } from "./shared.js";
+
+/**
+ * Regular-expression find and replace, configured per key.
+ *
+ * The pattern is the user's, so it is treated as untrusted in one specific way: a backtracking
+ * blow-up such as `(a+)+$` against forty `a`s would hang the whole plugin, every key with it,
+ * because a JavaScript regex cannot be interrupted from the thread running it. Two defences:
+ *
+ *  - the commonest catastrophic shape, an unbounded repeat of something that itself ends in an
+ *    unbounded repeat, is refused before it runs
+ *  - everything else runs inside a `vm` context with a timeout, which V8 enforces even in the
+ *    middle of a match
+ */
+
+/** Long enough for any sane pattern on a clipboard's worth of text; short enough to feel like a key press. */
+export const REGEX_TIME_LIMIT_MS = 250;
+
+/** Flags the transform accepts. `g` is the default: people expect find-and-replace to replace all. */
+const FLAGS = /^[gimsuy]*$/;
+
+/** The outcome of a replace, with the match count for the property inspector's preview. */
+export type RegexResult = { output: string; matches: number };
+
+/**
+ * Finds an unbounded repeat of a group whose content ends in an unbounded repeat — `(a+)+`,
+ * `(\d+,?)*`, `(x|y*)+` — and returns the group's source, or null when there is none.
+ *
+ * Those shapes can split one run of text between the inner and outer repeat in exponentially
+ * many ways, and a failing match tries every one. A group with something mandatory after its
+ * inner repeat, as in `(\w+\s)+`, splits only one way and is left alone. This is a heuristic
+ * for the common case, not a proof; the time limit catches the rest.
+ */
+export function findNestedQuantifier(pattern: string): string | null {
+    type Frame = { start: number; tail: boolean; anyAltTail: boolean };
+    const stack: Frame[] = [{ start: 0, tail: false, anyAltTail: false }];
+    let i = 0;
+
+    /** Reads the quantifier at `i`, if any: unbounded, optional (may match nothing), or neither. */
+    const quantifier = (): "unbounded" | "optional" | "bounded" | null => {
+        const c = pattern[i];
+        let kind: "unbounded" | "optional" | "bounded" | null = null;
+        if (c === "*" || c === "+") { kind = "unbounded"; i++; }
+        else if (c === "?") { kind = "optional"; i++; }
+        else if (c === "{") {
+            const m = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(i));
+            if (m) {
+                kind = m[2] && !m[3] ? "unbounded" : m[1] === "0" ? "optional" : "bounded";
+                i += m[0].length;
+            }
+        }
+        if (kind && pattern[i] === "?") i++; // lazy
+        return kind;
+    };
+
+    /** Records that an atom whose content ends in an unbounded repeat (or not) was just read. */
+    const atom = (endsUnbounded: boolean): void => {
+        const frame = stack[stack.length - 1];
+        const q = quantifier();
+        if (q === "unbounded") frame.tail = true;
+        else if (q === "optional") frame.tail ||= endsUnbounded;
+        else frame.tail = endsUnbounded;
+    };
+
+    while (i < pattern.length) {
+        const c = pattern[i];
+        if (c === "\\") {
+            i += 2;
+            atom(false);
+        } else if (c === "[") {
+            i++;
+            while (i < pattern.length && pattern[i] !== "]") i += pattern[i] === "\\" ? 2 : 1;
+            i++;
+            atom(false);
+        } else if (c === "(") {
+            stack.push({ start: i, tail: false, anyAltTail: false });
+            i++;
+        } else if (c === ")" && stack.length > 1) {
+            const frame = stack.pop();
+            i++;
+            // Checked for the type's sake: the outermost frame, for the whole pattern, stays.
+            if (frame === undefined) continue;
+            const endsUnbounded = frame.tail || frame.anyAltTail;
+            const before = i;
+            const q = quantifier();
+            if (q === "unbounded" && endsUnbounded) return pattern.slice(frame.start, i);
+            i = before;
+            atom(endsUnbounded);
+        } else if (c === "|") {
+            const frame = stack[stack.length - 1];
+            frame.anyAltTail ||= frame.tail;
+            frame.tail = false;
+            i++;
+        } else if (c === "^" || c === "$") {
+            i++;
+        } else {
+            i++;
+            atom(false);
+        }
+    }
+    return null;
+}
+
+/**
+ * Compiles the pattern, refusing what cannot or should not run.
+ *
+ * @throws TransformError when the pattern is empty, invalid, or catastrophic, or the flags are not
+ * ones this transform understands.
+ */
+export function compileRegex(pattern: string, flags: string): RegExp {
+    if (pattern === "") throw new TransformError("No pattern to find; set one in the button settings", "No\nPattern");
+    if (!FLAGS.test(flags)) {
+        throw new TransformError(`Unsupported regex flags "${flags}"; use any of g, i, m, s, u, y`, "Bad\nFlags");
+    }
+    let re: RegExp;
+    try {
+        re = new RegExp(pattern, flags);
+    } catch (error) {
+        throw new TransformError(
+            `Invalid pattern: ${error instanceof Error ? error.message : String(error)}`,
+            "Bad\nPattern"
+        );
+    }
+    const nested = findNestedQuantifier(pattern);
+    if (nested) {
+        throw new TransformError(
+            `Pattern refused: ${nested} repeats something that itself repeats, which can take forever on ` +
+            `text that almost matches. Put something mandatory after the inner repeat, or drop one of them`,
+            "Unsafe\nPattern"
+        );
+    }
+    return re;
+}
+
+/**
+ * Expands `\n`, `\t` and `\\` in a replacement. A property-inspector text field is a single line,
+ * so without these there would be no way to replace with a line break. `$1`, `$<name>` and `$&`
+ * are left for `String.prototype.replace` to expand.
+ */
+export function expandReplacement(replacement: string): string {
+    return replacement.replace(/\\([nt\\])/g, (_, c: string) => (c === "n" ? "\n" : c === "t" ? "\t" : "\\"));
+}
+
+/**
+ * Replaces every match (or the first, without `g`) and counts them, under the time limit.
+ *
+ * @throws TransformError as {@link compileRegex}, or when matching runs out of time.
+ */
+export function regexReplace(text: string, pattern: string, replacement: string, flags = "g"): RegexResult {
+    const re = compileRegex(pattern, flags);
+    try {
+        // The result object belongs to the sandbox's realm, so it is copied out field by field.
+        const { matches, output } = runInNewContext(
+            `({
+                matches: re.global ? [...text.matchAll(re)].length : (re.test(text) ? 1 : 0),
+                // A sticky test moves lastIndex, which replace would otherwise start from.
+                output: (re.lastIndex = 0, text.replace(re, replacement)),
+            })`,
+            { re, text, replacement: expandReplacement(replacement) },
+            { timeout: REGEX_TIME_LIMIT_MS }
+        ) as RegexResult;
+        return { matches, output };
+    } catch (error) {
+        if ((error as { code?: string }).code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+            throw new TransformError(
+                `Pattern gave up after ${REGEX_TIME_LIMIT_MS} ms without finishing; it backtracks too much on this text`,
+                "Too\nSlow"
+            );
+        }
+        throw error;
+    }
+}
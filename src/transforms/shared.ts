@@ -0,0 +1,61 @@
+import { randomInt } from "node:crypto";
+
+/**
+ * Pieces every transform family uses. Deliberately depends on nothing else in the plugin, so any
+ * family can import it without creating a cycle back through src/utils.ts.
+ */
+
+/**
+ * Thrown when a transform refuses its input, as distinct from a bug.
+ *
+ * The message is the full reason, phrased for a person and written to the log. `keyTitle` is the
+ * same news cut down to what fits on a key — two lines of about seven characters — for the cases
+ * where the short version is still worth showing, such as the line and column of a JSON error.
+ */
+export class TransformError extends Error {
+    constructor(message: string, readonly keyTitle?: string) {
+        super(message);
+    }
+}
+
+/**
+ * Reads a whole-number setting within [min, max].
+ *
+ * Settings written by the property inspector arrive as strings, and ones from an older profile
+ * may be missing entirely, so anything absent or unparseable falls back to the default rather
+ * than failing the transform.
+ */
+export function intOption(value: unknown, fallback: number, min: number, max: number): number {
+    const n = typeof value === "number" ? value : Number.parseInt(String(value ?? ""), 10);
+    if (!Number.isFinite(n)) return fallback;
+    return Math.max(min, Math.min(max, Math.trunc(n)));
+}
+
+/** Converts a zero-based offset into the one-based line and column an editor would show. */
+export function lineAndColumn(text: string, offset: number): { line: number; column: number } {
+    const before = text.slice(0, offset);
+    const line = before.split("\n").length;
+    return { line, column: offset - before.lastIndexOf("\n") };
+}
+
+/**
+ * Reads an on/off setting. A checkbox writes a boolean, but a hand-edited or older profile may
+ * hold the string, so both forms count; anything else is the default.
+ */
+export function boolOption(value: unknown, fallback: boolean): boolean {
+    if (value === true || value === "true") return true;
+    if (value === false || value === "false") return false;
+    return fallback;
+}
+
+/**
+ * Shuffles in place with Fisher–Yates, drawing from `crypto.randomInt`, which is unbiased for any
+ * range where `%` on random bytes is not.
+ */
+export function shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+        const j = randomInt(i + 1);
+        [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { applyTransform, TransformError } from "../utils.js";
+import { slugify, slugPolicy } from "./slug.js";
+
+const slug = (text: string, options = {}) => slugify(text, slugPolicy(options));
+
+describe("slugify", () => {
+    it("lowercases and joins words with one separator", () => {
+        expect(slug("  Hello,   World! ")).toBe("hello-world");
+        expect(slug("feature/JIRA-123: fix the (login) bug")).toBe("feature-jira-123-fix-the-login-bug");
+    });
+
+    it("drops apostrophes rather than splitting on them", () => {
+        expect(slug("Don't Stop")).toBe("dont-stop");
+    });
+
+    it("transliterates accents, ligatures and other scripts", () => {
+        expect(slug("Über die Straße & mehr")).toBe("uber-die-strasse-and-mehr");
+        expect(slug("Łódź, Øresund, Æther")).toBe("lodz-oresund-aether");
+        expect(slug("Привет, мир")).toBe("privet-mir");
+        expect(slug("Йошкар-Ола")).toBe("yoshkar-ola");
+        expect(slug("Καλημέρα κόσμε")).toBe("kalimera-kosme");
+        expect(slug("İstanbul")).toBe("istanbul");
+    });
+
+    it("drops what it cannot spell", () => {
+        expect(slug("東京 Tokyo 2024")).toBe("tokyo-2024");
+    });
+
+    it("refuses text with nothing it can spell", () => {
+        expect(() => slug("東京")).toThrow(TransformError);
+        expect(() => slug("!!!")).toThrow(/Nothing in that/);
+    });
+
+    it("uses the separator from the settings, falling back to a hyphen", () => {
+        expect(slug("Hello World", { slugSeparator: "_" })).toBe("hello_world");
+        expect(slug("Hello World", { slugSeparator: "." })).toBe("hello.world");
+        expect(slug("Hello World", { slugSeparator: "/" })).toBe("hello-world");
+    });
+
+    it("cuts to the maximum length between words", () => {
+        const title = "An introduction to transliteration";
+        expect(slug(title, { slugMaxLength: "20" })).toBe("an-introduction-to");
+        expect(slug(title, { slugMaxLength: "18" })).toBe("an-introduction-to");
+        expect(slug(title, { slugMaxLength: "" })).toBe("an-introduction-to-transliteration");
+    });
+
+    it("cuts mid-word when the only boundary is early", () => {
+        expect(slug("a supercalifragilistic word", { slugMaxLength: "10" })).toBe("a-supercal");
+    });
+
+    it("is a transform", () => {
+        expect(applyTransform("Hello World", "slugify", { slugSeparator: "_" })).toBe("hello_world");
+    });
+});
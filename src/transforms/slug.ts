@@ -0,0 +1,84 @@
+import { removeDiacritics } from "./cleanup.js";
+import { intOption, TransformError } from "./shared.js";
+
+/**
+ * Slugs: text cut down to lowercase ASCII letters and digits joined by one separator, safe in a
+ * URL path, a file name or a git branch. Accented letters lose their accents and Greek and
+ * Cyrillic are spelled out in Latin letters first, so `Über Straße` is `uber-strasse` and `Привет`
+ * is `privet` rather than nothing.
+ */
+
+/**
+ * Letters that need more than their accent taken off. Cyrillic follows the common Russian and
+ * Ukrainian romanisations, so `й` is `y` rather than the `и` it decomposes to; Greek takes the
+ * letters' usual Latin sounds.
+ */
+const LATIN: Readonly<Record<string, string>> = {
+    "ß": "ss", "æ": "ae", "œ": "oe", "þ": "th", "ð": "d", "ĳ": "ij",
+    "а": "a", "б": "b", "в": "v", "г": "g", "ґ": "g", "д": "d", "е": "e", "ё": "yo", "є": "ye",
+    "ж": "zh", "з": "z", "и": "i", "і": "i", "ї": "yi", "й": "y", "к": "k", "л": "l", "м": "m",
+    "н": "n", "о": "o", "п": "p", "р": "r", "с": "s", "т": "t", "у": "u", "ф": "f", "х": "kh",
+    "ц": "ts", "ч": "ch", "ш": "sh", "щ": "shch", "ъ": "", "ы": "y", "ь": "", "э": "e", "ю": "yu",
+    "я": "ya",
+    "α": "a", "β": "v", "γ": "g", "δ": "d", "ε": "e", "ζ": "z", "η": "i", "θ": "th", "ι": "i",
+    "κ": "k", "λ": "l", "μ": "m", "ν": "n", "ξ": "x", "ο": "o", "π": "p", "ρ": "r", "σ": "s",
+    "ς": "s", "τ": "t", "υ": "y", "φ": "f", "χ": "ch", "ψ": "ps", "ω": "o",
+    "&": " and ",
+};
+
+/** Separators that are safe everywhere a slug goes; anything else in the setting means the default. */
+const SEPARATORS = new Set(["-", "_", "."]);
+
+export type SlugPolicy = {
+    separator: string;
+    /** Longest slug in characters, or 0 for no limit. */
+    maxLength: number;
+};
+
+export function slugPolicy(options: { slugSeparator?: unknown; slugMaxLength?: unknown }): SlugPolicy {
+    return {
+        separator: typeof options.slugSeparator === "string" && SEPARATORS.has(options.slugSeparator)
+            ? options.slugSeparator
+            : "-",
+        maxLength: intOption(options.slugMaxLength, 0, 0, 500),
+    };
+}
+
+/** Spells a character in ASCII when it can be, by table or by dropping its accents. */
+function transliterate(char: string): string {
+    if (Object.hasOwn(LATIN, char)) return LATIN[char];
+    const plain = removeDiacritics(char).text;
+    return Object.hasOwn(LATIN, plain) ? LATIN[plain] : plain;
+}
+
+/**
+ * The slug for `text`. Apostrophes vanish rather than separating, so `don't` is `dont`; every
+ * other run of anything but letters and digits becomes one separator.
+ *
+ * A slug cut to length ends at a word boundary when one is near enough, so `…-introduction`
+ * does not become `…-introduc`.
+ *
+ * @throws TransformError when nothing in the text can be spelled in ASCII, as with Chinese, since
+ * an empty slug is never what was wanted.
+ */
+export function slugify(text: string, policy: SlugPolicy): string {
+    // Marks left over, such as the dot `İ` keeps when lowercased, would otherwise split a word.
+    const ascii = Array.from(text.normalize("NFC").toLowerCase(), transliterate).join("").replace(/\p{M}/gu, "");
+    const sep = policy.separator;
+    let slug = ascii.replace(/['’]/g, "").replace(/[^a-z0-9]+/g, sep);
+    slug = trimSeparators(slug, sep);
+    if (slug === "") {
+        throw new TransformError("Nothing in that can be spelled in a slug's letters and digits", "Empty\nSlug");
+    }
+    if (policy.maxLength > 0 && slug.length > policy.maxLength) {
+        const cut = slug.slice(0, policy.maxLength);
+        const boundary = slug[policy.maxLength] === sep ? cut.length : cut.lastIndexOf(sep);
+        // A boundary in the first half would throw away more than it keeps; cut mid-word instead.
+        slug = trimSeparators(boundary > policy.maxLength / 2 ? cut.slice(0, boundary) : cut, sep);
+    }
+    return slug;
+}
+
+function trimSeparators(slug: string, sep: string): string {
+    return slug.split(sep).filter(Boolean).join(sep);
+}
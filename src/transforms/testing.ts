@@ -0,0 +1,16 @@
+import { TransformError } from "./shared.js";
+
+/**
+ * Helpers for the transform tests. Not imported by the plugin itself.
+ */
+
+/** The error `run` throws, for asserting on its fields. */
+export function failure(run: () => unknown): TransformError {
+    try {
+        run();
+    } catch (error) {
+        if (error instanceof TransformError) return error;
+        throw error;
+    }
+    throw new Error("expected a TransformError");
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import { applyTransform, TransformError } from "../utils.js";
+import { formatIso, parseTimestamp, timeZoneOption } from "./time.js";
+
+// 2026-10-18T12:03:00Z
+const EPOCH_S = 1792324980;
+
+describe("time conversions", () => {
+    describe("reading", () => {
+        it("tells seconds from milliseconds by magnitude", () => {
+            expect(parseTimestamp(String(EPOCH_S), "UTC")).toBe(EPOCH_S * 1000);
+            expect(parseTimestamp(String(EPOCH_S * 1000), "UTC")).toBe(EPOCH_S * 1000);
+            expect(parseTimestamp("0", "UTC")).toBe(0);
+            expect(parseTimestamp("-86400", "UTC")).toBe(-86400000);
+        });
+
+        it("keeps fractional seconds", () => {
+            expect(parseTimestamp(`${EPOCH_S}.25`, "UTC")).toBe(EPOCH_S * 1000 + 250);
+            expect(parseTimestamp("2026-10-18T12:03:00.1234Z", "UTC")).toBe(EPOCH_S * 1000 + 123);
+        });
+
+        it("honours an ISO offset whatever the zone setting", () => {
+            expect(parseTimestamp("2026-10-18T14:03:00+02:00", "Asia/Tokyo")).toBe(EPOCH_S * 1000);
+            expect(parseTimestamp("2026-10-18T08:03:00-0400", undefined)).toBe(EPOCH_S * 1000);
+            expect(parseTimestamp(" 2026-10-18 12:03Z\n", undefined)).toBe(EPOCH_S * 1000);
+        });
+
+        it("reads an ISO time without an offset in the configured zone", () => {
+            expect(parseTimestamp("2026-10-18T14:03:00", "Europe/Berlin")).toBe(EPOCH_S * 1000);
+            expect(parseTimestamp("2026-10-18T21:03:00", "Asia/Tokyo")).toBe(EPOCH_S * 1000);
+        });
+
+        it("reads a date alone as midnight in the zone", () => {
+            expect(parseTimestamp("2026-10-18", "UTC")).toBe(Date.UTC(2026, 9, 18));
+            expect(parseTimestamp("2026-01-01", "America/New_York")).toBe(Date.UTC(2026, 0, 1, 5));
+        });
+
+        it("uses this computer's zone when none is set", () => {
+            expect(parseTimestamp("2026-10-18T14:03:00", undefined)).toBe(new Date(2026, 9, 18, 14, 3, 0).getTime());
+        });
+
+        it("refuses impossible dates rather than rolling them over", () => {
+            expect(() => parseTimestamp("2026-02-30", "UTC")).toThrow("2026-02-30 is not a real date or time");
+            expect(() => parseTimestamp("2026-13-01T00:00:00Z", "UTC")).toThrow(/not a real date/);
+            expect(() => parseTimestamp("2026-10-18T24:00:00Z", "UTC")).toThrow(/not a real date/);
+        });
+
+        it("refuses a time the clocks skip", () => {
+            // Clocks in Berlin jumped from 02:00 to 03:00 on 29 March 2026.
+            expect(() => parseTimestamp("2026-03-29T02:30:00", "Europe/Berlin"))
+                .toThrow("2026-03-29 02:30 does not exist in Europe/Berlin: the clocks skip it");
+        });
+
+        it("refuses an offset no clock uses", () => {
+            expect(() => parseTimestamp("2026-01-01T00:00:00+25:99", "UTC")).toThrow(/not a real date/);
+            expect(() => parseTimestamp("2026-01-01T00:00:00-12:60", "UTC")).toThrow(/not a real date/);
+            expect(parseTimestamp("2026-01-01T00:00:00+23:59", "UTC")).toBe(Date.UTC(2025, 11, 31, 0, 1));
+        });
+
+        it("refuses a number too far from 1970 to be a date, rather than rounding it", () => {
+            expect(parseTimestamp("8640000000000000", "UTC")).toBe(8.64e15);
+            for (const text of ["99999999999999999999", "8640000000000001", "-9000000000000000"]) {
+                expect(() => parseTimestamp(text, "UTC")).toThrow(/too far from 1970/);
+            }
+            expect(() => applyTransform("99999999999999999999", "toiso")).toThrow(TransformError);
+        });
+
+        it("refuses a leap second", () => {
+            expect(() => parseTimestamp("2016-12-31T23:59:60Z", "UTC")).toThrow(/leap second/);
+        });
+
+        it.each(["yesterday", "12:30", "1e10", "0x1F", ""])("refuses %j", text => {
+            expect(() => parseTimestamp(text, "UTC")).toThrow(/^Not a timestamp/);
+        });
+    });
+
+    describe("formatIso", () => {
+        it("formats in the zone with its offset on that date", () => {
+            expect(formatIso(EPOCH_S * 1000, "Europe/Berlin")).toBe("2026-10-18T14:03:00+02:00");
+            expect(formatIso(Date.UTC(2026, 11, 1, 12), "Europe/Berlin")).toBe("2026-12-01T13:00:00+01:00");
+            expect(formatIso(EPOCH_S * 1000, "America/St_Johns")).toBe("2026-10-18T09:33:00-02:30");
+        });
+
+        it("uses Z for a zero offset and shows milliseconds only when present", () => {
+            expect(formatIso(EPOCH_S * 1000, "UTC")).toBe("2026-10-18T12:03:00Z");
+            expect(formatIso(EPOCH_S * 1000 + 7, "UTC")).toBe("2026-10-18T12:03:00.007Z");
+            expect(formatIso(-1, "UTC")).toBe("1969-12-31T23:59:59.999Z");
+        });
+
+        it("writes the years 1 to 9999 in the Gregorian calendar, and refuses the rest", () => {
+            const yearOne = -62135596800000;
+            expect(formatIso(yearOne, "UTC")).toBe("0001-01-01T00:00:00Z");
+            expect(formatIso(Date.UTC(1500, 0, 1), "UTC")).toBe("1500-01-01T00:00:00Z");
+            expect(() => formatIso(yearOne - 1, "UTC")).toThrow("year 0, outside the years 1 to 9999");
+            expect(() => formatIso(8.64e15, "UTC")).toThrow(/year 275760/);
+        });
+    });
+
+    describe("early years", () => {
+        it("keeps a two-digit year in its own century", () => {
+            const fifty = new Date("0050-06-01T00:00:00Z").getTime();
+            expect(parseTimestamp("0050-06-01T00:00:00Z", "UTC")).toBe(fifty);
+            expect(applyTransform("0050-06-01T00:00:00Z", "tounix")).toBe(String(fifty / 1000));
+            expect(applyTransform("0050-06-01T12:00:00", "toiso", { timeZone: "UTC" })).toBe("0050-06-01T12:00:00Z");
+        });
+
+        it("reads and writes the year 1, and refuses the year 0", () => {
+            expect(applyTransform("-62135596800", "toiso", { timeZone: "UTC" })).toBe("0001-01-01T00:00:00Z");
+            expect(applyTransform("0001-01-01", "tounix", { timeZone: "UTC" })).toBe("-62135596800");
+            expect(() => parseTimestamp("0000-12-31", "UTC")).toThrow(/not a real date/);
+        });
+    });
+
+    describe("timeZoneOption", () => {
+        it("treats blank as this computer's zone", () => {
+            expect(timeZoneOption(undefined)).toBeUndefined();
+            expect(timeZoneOption("  ")).toBeUndefined();
+        });
+
+        it("refuses a zone Intl does not know", () => {
+            expect(() => timeZoneOption("Mars/Olympus")).toThrow(/^Unknown time zone "Mars\/Olympus"/);
+        });
+    });
+
+    describe("transforms", () => {
+        it("converts between all three forms", () => {
+            const options = { timeZone: "Europe/Berlin" };
+            expect(applyTransform("2026-10-18T14:03:00+02:00", "tounix", options)).toBe(String(EPOCH_S));
+            expect(applyTransform(String(EPOCH_S), "tounixms", options)).toBe(`${EPOCH_S}000`);
+            expect(applyTransform(`${EPOCH_S}000`, "toiso", options)).toBe("2026-10-18T14:03:00+02:00");
+            expect(applyTransform("2026-10-18T14:03:00", "toiso", { timeZone: "UTC" })).toBe("2026-10-18T14:03:00Z");
+        });
+
+        it("rounds down to whole seconds, as POSIX time does", () => {
+            expect(applyTransform(`${EPOCH_S}999`, "tounix", { timeZone: "UTC" })).toBe(String(EPOCH_S));
+        });
+    });
+});
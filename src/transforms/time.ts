@@ -0,0 +1,241 @@
+import { TransformError } from "./shared.js";
+
+/**
+ * Dates and times: the local formatting the generators and decoders share, and conversion of a
+ * copied timestamp between Unix seconds, Unix milliseconds and ISO 8601 in any IANA time zone.
+ *
+ * Time zones go through `Intl`, which carries the full tz database in every Node build, so a
+ * zone's offset on a given date — daylight saving included — is never computed by hand.
+ */
+
+export function pad2(n: number): string {
+    return String(n).padStart(2, "0");
+}
+
+/**
+ * Formats the *local* calendar date as `YYYY-MM-DD`.
+ *
+ * Deliberately not `toISOString().slice(0, 10)`, which formats in UTC and therefore reports
+ * the wrong day for anyone whose local date differs from UTC's at the time of use.
+ */
+export function localDate(d: Date): string {
+    return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+}
+
+/** Formats the local wall-clock time as `HH:mm:ss`. */
+export function localTime(d: Date): string {
+    return `${pad2(d.getHours())}:${pad2(d.getMinutes())}:${pad2(d.getSeconds())}`;
+}
+
+/** The fields of an ISO 8601 date or timestamp, as written. */
+export type IsoParts = {
+    year: number;
+    month: number;
+    day: number;
+    /** Absent for a date alone. */
+    hour?: number;
+    minute?: number;
+    second?: number;
+    /** Fractional seconds, as written after the dot. */
+    fraction?: string;
+    /** Minutes ahead of UTC, from `Z`, `±HH:MM` or `±HHMM`; absent for a local time. */
+    offsetMinutes?: number;
+};
+
+/**
+ * Parses an ISO 8601 date or timestamp, or returns null.
+ *
+ * The calendar values are checked, not just the digit pattern, so `2026-13-45` and `2026-02-30`
+ * are rejected rather than badged as dates — or, worse, rolled over into March. So is the year
+ * 0000, leaving the years 1 to 9999 that {@link formatIso} can write back.
+ */
+export function parseIsoDateTime(value: string): IsoParts | null {
+    const m = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.(\d+))?(?:(Z)|([+-])(\d{2}):?(\d{2}))?)?$/
+        .exec(value);
+    if (!m) return null;
+    const [, y, mo, d, hh, mm, ss, fraction, zulu, sign, oh, om] = m;
+    if (+y < 1) return null;
+    if (hh !== undefined && (+hh > 23 || +mm > 59 || (ss !== undefined && +ss > 60))) return null;
+    if (sign !== undefined && (+oh > 23 || +om > 59)) return null;
+    // Round-tripping through Date rejects impossible calendar days such as 31 February.
+    const date = new Date(`${y}-${mo}-${d}T00:00:00Z`);
+    if (date.getUTCFullYear() !== +y || date.getUTCMonth() + 1 !== +mo || date.getUTCDate() !== +d) return null;
+    return {
+        year: +y, month: +mo, day: +d,
+        ...(hh !== undefined ? { hour: +hh, minute: +mm, second: ss !== undefined ? +ss : 0 } : {}),
+        ...(fraction !== undefined ? { fraction } : {}),
+        ...(zulu !== undefined ? { offsetMinutes: 0 } : {}),
+        ...(sign !== undefined ? { offsetMinutes: (sign === "-" ? -1 : 1) * (+oh * 60 + +om) } : {}),
+    };
+}
+
+/** True for an ISO 8601 date or timestamp; see {@link parseIsoDateTime}. */
+export function isIsoDateTime(value: string): boolean {
+    return parseIsoDateTime(value) !== null;
+}
+
+/**
+ * Below this magnitude a Unix timestamp is taken as seconds, at or above it as milliseconds.
+ * 10^11 seconds is the year 5138; 10^11 milliseconds is March 1973. Nothing anyone copies falls
+ * between the two.
+ */
+const MS_THRESHOLD = 1e11;
+
+/** The furthest from the epoch, either way, that a `Date` can be: 100 million days, about 275,760 years. */
+const MAX_EPOCH_MS = 8.64e15;
+
+/**
+ * Reads the time zone setting: an IANA name such as `Europe/Berlin`, or blank for this
+ * computer's own zone, which is what `undefined` means to `Intl`.
+ *
+ * @throws TransformError when the name is not one `Intl` knows.
+ */
+export function timeZoneOption(value: unknown): string | undefined {
+    const zone = typeof value === "string" ? value.trim() : "";
+    if (zone === "") return undefined;
+    try {
+        return new Intl.DateTimeFormat("en-US", { timeZone: zone }).resolvedOptions().timeZone;
+    } catch {
+        throw new TransformError(
+            `Unknown time zone "${zone}"; use an IANA name such as Europe/Berlin or America/New_York`,
+            "Bad\nZone"
+        );
+    }
+}
+
+/**
+ * `Date.UTC`, without its reading of the years 0 to 99 as 1900 to 1999, which would move the
+ * year 50 to 1950 without a word.
+ */
+export function utcMs(year: number, month: number, day: number, hour = 0, minute = 0, second = 0, ms = 0): number {
+    const date = new Date(0);
+    date.setUTCFullYear(year, month - 1, day);
+    date.setUTCHours(hour, minute, second, ms);
+    return date.getTime();
+}
+
+/** The wall-clock fields of an instant in `zone`. */
+export type WallTime = { year: number; month: number; day: number; hour: number; minute: number; second: number };
+
+/**
+ * The wall-clock fields of an instant in `zone`, in the proleptic Gregorian calendar ISO 8601
+ * uses. Only the offset comes from `Intl`: its own calendar turns Julian before 1582 and drops
+ * the era, so its dates are wrong for early instants even where its offsets are right.
+ */
+export function wallTime(epochMs: number, zone: string | undefined): WallTime {
+    const local = new Date(epochMs + zoneOffsetMs(epochMs, zone));
+    return {
+        year: local.getUTCFullYear(), month: local.getUTCMonth() + 1, day: local.getUTCDate(),
+        hour: local.getUTCHours(), minute: local.getUTCMinutes(), second: local.getUTCSeconds(),
+    };
+}
+
+/** How far `zone` is ahead of UTC at the given instant, in milliseconds. */
+export function zoneOffsetMs(epochMs: number, zone: string | undefined): number {
+    const name = new Intl.DateTimeFormat("en-US", { timeZone: zone, timeZoneName: "longOffset" })
+        .formatToParts(new Date(epochMs))
+        .find(p => p.type === "timeZoneName")?.value ?? "GMT";
+    // `GMT` for UTC itself, else `GMT+05:30`, with seconds for the local mean times before zones.
+    const m = /^GMT([+-])(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(name);
+    if (!m) return 0;
+    const [, sign, hours, minutes, seconds = "0"] = m;
+    return (sign === "-" ? -1 : 1) * ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000;
+}
+
+/**
+ * The instant a wall-clock time in `zone` names.
+ *
+ * @throws TransformError for a time the clocks skip when daylight saving starts. Moving it an hour
+ * on would be a silent guess about what was meant.
+ */
+export function wallTimeToEpoch(w: WallTime, ms: number, zone: string | undefined): number {
+    const asUtc = utcMs(w.year, w.month, w.day, w.hour, w.minute, w.second, ms);
+    // The offset at the guess is right unless a transition lies between the guess and the answer,
+    // so a second pass with the offset found at the first answer settles it.
+    let epoch = asUtc - zoneOffsetMs(asUtc, zone);
+    epoch = asUtc - zoneOffsetMs(epoch, zone);
+    const check = wallTime(epoch, zone);
+    if (check.hour !== w.hour || check.minute !== w.minute || check.day !== w.day) {
+        const when = `${w.year}-${pad2(w.month)}-${pad2(w.day)} ${pad2(w.hour)}:${pad2(w.minute)}`;
+        throw new TransformError(
+            `${when} does not exist in ${zone ?? "this computer's time zone"}: the clocks skip it`,
+            "No Such\nTime"
+        );
+    }
+    return epoch;
+}
+
+/** Milliseconds from a fraction of a second as written, e.g. `5` → 500, `123456` → 123. */
+function fractionMs(fraction: string | undefined): number {
+    return fraction ? Math.floor(Number(`0.${fraction}`) * 1000) : 0;
+}
+
+/**
+ * Reads a copied timestamp as an instant: Unix seconds or milliseconds, told apart by magnitude,
+ * or ISO 8601. An ISO time without an offset is a wall-clock time in `zone`, and a date alone is
+ * its midnight there.
+ *
+ * @throws TransformError for anything else, naming an impossible date rather than rolling it over.
+ */
+export function parseTimestamp(text: string, zone: string | undefined): number {
+    const value = text.trim();
+    if (/^-?\d+(\.\d+)?$/.test(value)) {
+        const n = Number(value);
+        const ms = Math.abs(n) >= MS_THRESHOLD ? Math.round(n) : Math.round(n * 1000);
+        // Checked before anything is rounded to fit, since a double cannot hold every digit of a
+        // larger number and the instant would be silently moved.
+        if (!(Math.abs(ms) <= MAX_EPOCH_MS)) {
+            throw new TransformError(
+                `${value} is too far from 1970 to be a date: the range ends about 275,760 years either side`,
+                "Out of\nRange"
+            );
+        }
+        return ms;
+    }
+    const iso = parseIsoDateTime(value);
+    if (!iso) {
+        if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+            throw new TransformError(`${value} is not a real date or time`, "No Such\nDate");
+        }
+        throw new TransformError(
+            "Not a timestamp: expected Unix seconds, Unix milliseconds or an ISO 8601 date",
+            "Not a\nTime"
+        );
+    }
+    if (iso.second === 60) {
+        throw new TransformError(`${value} is a leap second, which Unix time cannot represent`, "Leap\nSecond");
+    }
+    const w: WallTime = {
+        year: iso.year, month: iso.month, day: iso.day,
+        hour: iso.hour ?? 0, minute: iso.minute ?? 0, second: iso.second ?? 0,
+    };
+    const ms = fractionMs(iso.fraction);
+    if (iso.offsetMinutes === undefined) return wallTimeToEpoch(w, ms, zone);
+    return utcMs(w.year, w.month, w.day, w.hour, w.minute, w.second, ms) - iso.offsetMinutes * 60_000;
+}
+
+/**
+ * Formats an instant as ISO 8601 in `zone`, with the offset that applied there at the time:
+ * `2026-10-18T14:03:00+02:00`, or `Z` where the offset is zero. Milliseconds appear only when
+ * there are some.
+ *
+ * @throws TransformError for an instant outside the years 1 to 9999, which ISO 8601 writes only
+ * with a sign and extra digits that nothing reading a plain date expects.
+ */
+export function formatIso(epochMs: number, zone: string | undefined): string {
+    const w = wallTime(epochMs, zone);
+    if (!(w.year >= 1 && w.year <= 9999)) {
+        throw new TransformError(
+            `That instant falls in the year ${w.year}, outside the years 1 to 9999 an ISO 8601 date can show`,
+            "Out of\nRange"
+        );
+    }
+    const offsetMin = Math.round(zoneOffsetMs(epochMs, zone) / 60_000);
+    const ms = ((epochMs % 1000) + 1000) % 1000;
+    const abs = Math.abs(offsetMin);
+    const offset = offsetMin === 0 ? "Z" : `${offsetMin < 0 ? "-" : "+"}${pad2(Math.floor(abs / 60))}:${pad2(abs % 60)}`;
+    return `${String(w.year).padStart(4, "0")}-${pad2(w.month)}-${pad2(w.day)}`
+        + `T${pad2(w.hour)}:${pad2(w.minute)}:${pad2(w.second)}`
+        + (ms ? `.${String(ms).padStart(3, "0")}` : "")
+        + offset;
+}
@@ -0,0 +1,175 @@
+import { describeJson, type JsonNode, parseJson, stringifyJson } from "./json.js";
+import { TransformError } from "./shared.js";
+
+/**
+ * URL tools: a URL laid out as JSON, a query string built from JSON, and a URL with its tracking
+ * parameters or its credentials taken out.
+ *
+ * The two that clean a URL edit the text rather than re-serialising a parsed `URL`, which would
+ * lowercase the host, add a trailing slash and re-encode every parameter. What is kept comes back
+ * exactly as it was pasted.
+ */
+
+/** A scheme followed by `//`: the URLs people paste, and not `localhost:8080`, which `URL` reads as a scheme. */
+const HIERARCHICAL = /^[a-z][a-z\d+.-]*:\/\//i;
+
+/**
+ * The parsed URL, when the whole value is one.
+ *
+ * @throws TransformError when it is not.
+ */
+function parseUrl(text: string): URL {
+    const trimmed = text.trim();
+    if (HIERARCHICAL.test(trimmed) && !/\s/.test(trimmed)) {
+        try {
+            return new URL(trimmed);
+        } catch {
+            // reported below, the same as text that was never a URL
+        }
+    }
+    throw new TransformError("Not a URL: expected a whole URL such as https://example.com/path", "Not\nURL");
+}
+
+/**
+ * The user name and password a URL carries, or `null` when the value is not a URL. Either may
+ * be empty; `https://token@host` has a user name and no password.
+ */
+export function urlCredentials(text: string): { username: string; password: string } | null {
+    try {
+        const url = parseUrl(text);
+        return { username: url.username, password: url.password };
+    } catch {
+        return null;
+    }
+}
+
+/** Percent-decoded, or left as written when it is not valid percent-encoding. */
+function decode(text: string): string {
+    try {
+        return decodeURIComponent(text);
+    } catch {
+        return text;
+    }
+}
+
+const string = (value: string): JsonNode => ({ type: "string", value });
+
+/**
+ * A URL as JSON: scheme, host, path, the query parameters decoded, and the parts that are only
+ * sometimes there — user name, password, port and fragment — when they are. A parameter given
+ * more than once becomes an array of its values, in order.
+ */
+export function urlToJson(text: string, indent: string): string {
+    const url = parseUrl(text);
+    const entries: [string, JsonNode][] = [["scheme", string(url.protocol.slice(0, -1))]];
+    if (url.username) entries.push(["username", string(decode(url.username))]);
+    if (url.password) entries.push(["password", string(decode(url.password))]);
+    entries.push(["host", string(url.hostname)]);
+    if (url.port) entries.push(["port", { type: "number", raw: url.port }]);
+    entries.push(["path", string(decode(url.pathname))]);
+    const query = new Map<string, string[]>();
+    for (const [name, value] of url.searchParams) {
+        query.set(name, [...(query.get(name) ?? []), value]);
+    }
+    entries.push(["query", {
+        type: "object",
+        entries: [...query].map(([name, values]): [string, JsonNode] =>
+            [name, values.length === 1 ? string(values[0]) : { type: "array", items: values.map(string) }]),
+    }]);
+    if (url.hash) entries.push(["fragment", string(decode(url.hash.slice(1)))]);
+    return stringifyJson({ type: "object", entries }, indent);
+}
+
+/** A parameter value as query text; `null` means the name alone, as in `?debug`. */
+function parameter(name: string, node: JsonNode): string {
+    const key = encodeURIComponent(name);
+    switch (node.type) {
+        case "string":
+            return `${key}=${encodeURIComponent(node.value)}`;
+        case "number":
+            return `${key}=${node.raw}`;
+        case "literal":
+            return node.value === null ? key : `${key}=${node.value}`;
+        default:
+            throw new TransformError(
+                `Parameter "${name}" is ${describeJson(node)}, which a query string cannot hold`,
+                "Nested\nValue"
+            );
+    }
+}
+
+/**
+ * A query string from a JSON object of parameters, ready to follow the `?`. An array repeats its
+ * parameter once per item, as {@link urlToJson} writes a repeated one, so the `query` it produces
+ * builds back into the same parameters. Names and values are percent-encoded, spaces as `%20`
+ * rather than `+`, which every server reads the same way.
+ *
+ * @throws TransformError when the JSON is invalid, is not an object, has no parameters, or has a
+ * value nested deeper than an array of plain values.
+ */
+export function jsonToQuery(text: string): string {
+    const root = parseJson(text);
+    if (root.type !== "object") {
+        throw new TransformError(`A query string is built from a JSON object, and this is ${describeJson(root)}`, "Not\nObject");
+    }
+    if (root.entries.length === 0) {
+        throw new TransformError("The object is empty, so there are no parameters to build", "No\nParams");
+    }
+    return root.entries
+        .flatMap(([name, value]) => (value.type === "array" ? value.items : [value]).map(item => parameter(name, item)))
+        .join("&");
+}
+
+/**
+ * Parameters that only say where a click came from. Checked without regard to case, since
+ * mailing tools write `UTM_Source` as readily as `utm_source`.
+ */
+const TRACKING = new Set([
+    "fbclid", "gclid", "gclsrc", "dclid", "gbraid", "wbraid", "msclkid", "yclid", "twclid", "ttclid",
+    "li_fat_id", "igshid", "mc_cid", "mc_eid", "_hsenc", "_hsmi", "mkt_tok", "oly_anon_id",
+    "oly_enc_id", "vero_id", "vero_conv", "_ga", "_gl", "srsltid", "rb_clickid", "wickedid",
+]);
+
+/** Whole families of campaign parameters: Google Analytics, Matomo (once Piwik) and HubSpot ads. */
+const TRACKING_PREFIX = /^(?:utm|mtm|pk|hsa)_/;
+
+/**
+ * The URL without its tracking parameters (`utm_*`, `fbclid`, `gclid` and their kind). Every
+ * other parameter stays, in order and encoded as it was, and the `?` goes when nothing is left.
+ *
+ * @throws TransformError when the value is not a URL.
+ */
+export function stripTracking(text: string): string {
+    parseUrl(text);
+    const trimmed = text.trim();
+    const hashAt = trimmed.indexOf("#");
+    const end = hashAt === -1 ? trimmed.length : hashAt;
+    const queryAt = trimmed.indexOf("?");
+    if (queryAt === -1 || queryAt > end) return trimmed;
+    const kept = trimmed.slice(queryAt + 1, end).split("&").filter(pair => {
+        const name = decode(pair.split("=")[0].replace(/\+/g, " ")).toLowerCase();
+        return pair !== "" && !TRACKING.has(name) && !TRACKING_PREFIX.test(name);
+    });
+    return trimmed.slice(0, queryAt) + (kept.length > 0 ? `?${kept.join("&")}` : "") + trimmed.slice(end);
+}
+
+/** The schemes the URL standard parses as web addresses, where `\` counts as `/`. */
+const SPECIAL_SCHEMES = new Set(["http:", "https:", "ws:", "wss:", "ftp:", "file:"]);
+
+/**
+ * The URL without the user name and password in front of its host. Both go, since a user name
+ * on its own is often the token, as in `https://ghp_…@github.com`.
+ *
+ * @throws TransformError when the value is not a URL.
+ */
+export function removeCredentials(text: string): string {
+    const url = parseUrl(text);
+    const trimmed = text.trim();
+    if (url.username === "" && url.password === "") return trimmed;
+    // Greedy up to the last `@` before the path, which is where the URL parser ends the user info.
+    // For the special schemes a `\` starts the path as `/` does, so an `@` after one is the path's.
+    const userInfo = SPECIAL_SCHEMES.has(url.protocol)
+        ? /^([a-z][a-z\d+.-]*:\/\/)[^/?#\\]*@/i
+        : /^([a-z][a-z\d+.-]*:\/\/)[^/?#]*@/i;
+    return trimmed.replace(userInfo, "$1");
+}
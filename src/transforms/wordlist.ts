@@ -0,0 +1,87 @@
+/**
+ * The passphrase word list: 1296 short, common English words, one per roll of four dice, as in
+ * the EFF's short Diceware lists. Lowercase letters only, three to six long, so a phrase can be
+ * typed on any keyboard layout and read aloud without spelling it out.
+ *
+ * Each word carries log2(1296) ≈ 10.3 bits, so six words are about 62 bits. The list is in the
+ * source rather than a data file because the plugin ships as one bundle.
+ */
+export const WORDS: readonly string[] = `
+    able acid acorn acre act actor adapt add adobe adult afar after again age agent agile aging
+    agree ahead aid aim air aisle alarm album alert algae alias alibi alien align alike alive alley
+    allow alloy almond aloe alone along aloud alpha alps amber amble amigo amino ample amuse anchor
+    angel anger angle angry ankle annex answer ant antler anvil apple april apron aqua arbor arch
+    arena argue arise armor army aroma array arrow art ascot ash aside ask aspen asset atlas atom
+    attic audio audit aunt auto autumn avid avoid awake award aware awful axis axle baby bacon badge
+    bagel baker bald ball bamboo banana band banjo bank banner barn barrel basil basin basket batch
+    bath baton beach beacon beam bean bear beard beast beaver bed beef beetle begin being belt bench
+    berry bike bird bison black blade blank blast blaze blend bless blimp blink bliss block bloom
+    blue blunt blush board boat body bold bolt bone bonus book boost boot border boss bottle bounce
+    bowl box brain brake branch brass brave bread breeze brick bride bridge brief bright brim bring
+    brisk broad broom brown brush bubble bucket buddy budget bugle build bulb bulk bunch bundle
+    bunny burger burst bush busy butter button buyer buzz cabin cable cactus cadet cafe cage cake
+    calf call calm camel camera camp canal candle candy canoe canvas canyon cape card cargo carol
+    carpet carrot cart carve case cash castle cat catch cattle cause cave cedar celery cello cement
+    census cereal chain chair chalk champ change chant chapel charm chart chase cheek cheer cheese
+    chef cherry chess chest chew chick chief child chill chime chin chip choir chord chorus chunk
+    cider cinema circle circus citrus city civic claim clam clap clay clean clear clerk click cliff
+    climb clock cloth cloud clover clown club clue coach coast coat cobra cocoa code coffee coil
+    coin cold comb comet comic common condor cone coral cord core cork corn cosmic cotton couch
+    cough count coupon course cousin cover cowboy coyote crab craft crane crate crater crayon cream
+    credit creek crest crew crisp crop cross crowd crown crumb crust cube cuddle cup curb cure curl
+    curry curve cycle daily dairy daisy dance dandy dash data date dawn day deal debut decade decal
+    deck decor deer degree delta denim dense depot depth desert design desk detail dial diary diet
+    digit dime diner dingo dinner dish disk ditch dive dock doctor dodge dog doll domain dome donor
+    donut door dose dot double dough dove dozen draft dragon drama draw dream dress drift drill
+    drink drive drum duck duet dune dust duty eager eagle early earn earth easel east easy echo edge
+    edit eel effort egg eight elbow elder elect elk elm ember empty enamel end energy engine enjoy
+    enter entry envoy equal era errand essay ether even event exact exam exit expert extra fabric
+    face fact fade fair fairy faith falcon fall fame family fancy farm fast fawn feast fellow fence
+    fern ferry fetch fever fiber fiddle field fifty fig film final finch find fine finger fire firm
+    fish fist five flag flame flash flask flat flavor fleet flex flight flint float flock flood
+    floor flour flower fluid flute foam focus fog folk font food foot force forest fork form fort
+    forum fossil found fox frame fresh friend frog frost fruit fuel fun fund fungus funny fur galaxy
+    game gap garage garden garlic gas gate gauge gear gecko gem genre ghost giant gift glad glass
+    glide globe glove glow glue goal goat gold golf good goose gown grace grain grand grape graph
+    grass gravy great green grid grill grin grip grove grow guard guava guess guest guide gulf gull
+    gum guru habit hair half hall halo hand happy hare harp hat hatch hawk hazel head heap heart
+    heat hedge heel help hen herb hero heron hike hill hinge hippo hobby hold holly home honey hood
+    hook hope horn horse host hotel hour house hover hub hug human humor hunt hurry husky hut hymn
+    ice icon idea igloo image inch index ink inlet input iris iron item ivory ivy jam jar jazz jeans
+    jelly jewel job join joke jolly joy judge juice jumbo jump jury kale kayak keen keep key kick
+    kid kind king kiosk kite kiwi knee knife knob knot koala label lace lady lake lamb lamp land
+    lane large laser latch late laugh lava lawn layer leaf lean learn leash least ledge lemon lens
+    level lever lid life lift light lilac lily limb lime limit linen lion lip list live llama load
+    loaf lobby local lock lodge logic long loop lotus loud love loyal lucky lunar lunch lung lyric
+    macaw magic maid mail major maker mango maple march marsh mask mason mast match math maze meal
+    medal melon memo menu mercy merit mesa metal metro mild mile milk mill mimic mind minor mint
+    mist mix model molar mole money month mood moon moose moral moss motel moth motor mound mount
+    mouse mouth movie mug mule music myth nail name navy near neat neck neon nerve nest net new news
+    next niece night noble node noise north nose notch note novel nurse nut oak oasis oat ocean odd
+    offer often olive omega onion open opera optic orbit order organ otter ounce outer oval oven owl
+    owner pace page paint pair palm panda panel panic paper park party pass pasta paste patch path
+    patio pause peace peach peak pear pearl pecan pedal perch pet petal phone photo piano piece pier
+    pig pilot pine pink pint pipe pitch pixel pizza place plain plank plant plate play plaza plot
+    plum plume plus poem poet point polar pole pond pony pool poppy porch port pose pouch power
+    press price pride prime print prism prize proof proud prune pulse puma pump punch pupil puppy
+    purse quail quart queen quest quick quiet quill quilt quiz quota race radar radio raft rail rain
+    rake rally ramp ranch range rapid rare raven razor reach ready realm red reef relay relic rent
+    reply rest rhino rhyme rice rich ride ridge rifle right ring rinse rise river road roast robe
+    robin robot rock rodeo roof room root rope rose rotor round route rover royal ruby rug ruler
+    rush rust safe saga sail salad salon salsa salt sand satin sauce savor scale scarf scene scent
+    scoop score scout scrap sea seal seat seed sense shade shake shape share shark sheep shelf shell
+    shift shine ship shirt shoe shop shore short show shrub side sign silk sing siren skill skunk
+    sky slate sled sleep slice slide slope sloth slow small smile smoke snack snail snake snow soap
+    sock soda sofa soft solar solid solo sonic soup south space spade spark speak spell spice spike
+    spine spoon sport spot spray squid stack stage stair stamp stand star state steam steel stem
+    step stew stick still stone stool storm story stove straw style sugar suit sun sunny super surf
+    swamp swan sweet swift swim swing syrup table taco tail tango tank tape task taste taxi tea
+    teach team tempo tent term test text thank theme thorn thumb tide tiger tile time tiny tip toast
+    today toe token tone tool tooth topic torch total totem tour towel tower town toy track trade
+    trail train tray treat tree trend trial tribe trick trio truck trunk trust truth tuba tulip tuna
+    tutor twig twin type ultra uncle union unit upper urban usage value valve vapor vase vault venue
+    verb verse video view villa vine visit visor vital vivid vocal voice vote wafer wagon waist walk
+    wall wand warm wave wax weave web wedge week whale wheat wheel whisk white wick wide width wild
+    wind wing wire wise wish wolf wood wool word work world worm wrap wren wrist yacht yak yard yarn
+    year yeast yeti yield young yoyo zebra zero zest zinc zone zoom
+`.trim().split(/\s+/);
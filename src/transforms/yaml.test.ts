@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { parseJson, stringifyJson } from "./json.js";
+import { TransformError } from "./shared.js";
+import { parseYaml, toYaml } from "./yaml.js";
+
+/** YAML as minified JSON, for comparing. */
+const json = (yaml: string) => stringifyJson(parseYaml(yaml), "");
+const yaml = (text: string) => toYaml(parseJson(text));
+
+describe("parseYaml", () => {
+    it("reads a Kubernetes manifest", () => {
+        const manifest = [
+            "apiVersion: apps/v1",
+            "kind: Deployment",
+            "metadata:",
+            "  name: web  # the service name",
+            "  labels: {app: web, tier: \"front\"}",
+            "spec:",
+            "  replicas: 3",
+            "  template:",
+            "    spec:",
+            "      containers:",
+            "      - name: web",
+            "        image: 'nginx:1.25'",
+            "        args: [--port, \"8080\"]",
+            "        ports:",
+            "          - containerPort: 80",
+            "            protocol: TCP",
+            "      volumes: []",
+        ].join("\n");
+        expect(json(manifest)).toBe(
+            '{"apiVersion":"apps/v1","kind":"Deployment","metadata":{"name":"web","labels":{"app":"web","tier":"front"}},'
+            + '"spec":{"replicas":3,"template":{"spec":{"containers":[{"name":"web","image":"nginx:1.25","args":["--port","8080"],'
+            + '"ports":[{"containerPort":80,"protocol":"TCP"}]}],"volumes":[]}}}}');
+    });
+
+    it("types plain scalars by the core schema", () => {
+        expect(json("a: yes\nb: true\nc: ~\nd:\ne: 0x1F\nf: +1.50\ng: 007\nh: 1234567890123456789\ni: 2024-01-15"))
+            .toBe('{"a":"yes","b":true,"c":null,"d":null,"e":31,"f":1.50,"g":7,"h":1234567890123456789,"i":"2024-01-15"}');
+    });
+
+    it("reads quoted strings and their escapes", () => {
+        expect(json(`a: 'it''s # not a comment'\nb: "tab\\there \\u00e9"`)).toBe('{"a":"it\'s # not a comment","b":"tab\\there é"}');
+    });
+
+    it("reads literal and folded block scalars with each chomping", () => {
+        const text = ["a: |", "  one", "    two", "", "b: |-", "  kept", "c: >", "  folded", "  line", "", "  next", "d: |+", "  keep", "", "e: x"].join("\n");
+        expect(JSON.parse(json(text))).toEqual({ a: "one\n  two\n", b: "kept", c: "folded line\nnext\n", d: "keep\n\n", e: "x" });
+    });
+
+    it("reads nested sequences and sequences of mappings", () => {
+        expect(json("- - a\n  - b\n- k: v\n  l: w\n-\n  - c")).toBe('[["a","b"],{"k":"v","l":"w"},["c"]]');
+    });
+
+    it("reads a scalar, or nothing, as a document", () => {
+        expect(json("--- # start\nhello\n...\n")).toBe('"hello"');
+        expect(json("")).toBe("null");
+    });
+
+    it("names unsupported constructs and where they are", () => {
+        const cases: [string, RegExp][] = [
+            ["a: &x 1\nb: *x", /Unsupported YAML: anchors are not supported at line 1, column 4/],
+            ["a: !!str 1", /tags are not supported/],
+            ["? a\n: b", /complex keys are not supported/],
+            ["a: 1\n---\nb: 2", /more than one document is not supported at line 2/],
+            ["a: one\n  two", /plain scalars over several lines are not supported at line 2, column 3/],
+            ["a: \"open\n  close\"", /quoted strings over several lines/],
+            ["a: [1,\n  2]", /flow collections over several lines/],
+            ["%YAML 1.2\n---\na: 1", /directives/],
+            ["<<: {a: 1}", /merge keys/],
+        ];
+        for (const [text, message] of cases) {
+            expect(() => parseYaml(text)).toThrow(message);
+        }
+    });
+
+    it("refuses invalid YAML with the line and column on the key", () => {
+        expect(() => parseYaml("a: 1\na: 2")).toThrow(/the key "a" appears twice at line 2, column 1/);
+        expect(() => parseYaml("a:\n\tb: 1")).toThrow(/tabs cannot indent/);
+        expect(() => parseYaml("a: b: c")).toThrow(/mapping value cannot go here/);
+        expect(() => parseYaml("a: .inf")).toThrow(/no equivalent in JSON/);
+        try {
+            parseYaml("a:\n  b: 1\n c: 2");
+        } catch (error) {
+            expect(error).toBeInstanceOf(TransformError);
+            expect((error as TransformError).keyTitle).toBe("Line 3\nCol 2");
+        }
+    });
+});
+
+describe("toYaml", () => {
+    it("writes mappings, sequences and empty collections", () => {
+        expect(yaml('{"name": "web", "ports": [80, 443], "env": [{"name": "A", "value": "1"}], "meta": {}, "list": []}')).toBe([
+            "name: web",
+            "ports:",
+            "  - 80",
+            "  - 443",
+            "env:",
+            "  - name: A",
+            "    value: \"1\"",
+            "meta: {}",
+            "list: []",
+            "",
+        ].join("\n"));
+    });
+
+    it("quotes strings that would read back as something else", () => {
+        expect(yaml('["yes", "null", "1.0", "2024-01-15", "- x", "a: b", "a #b", " pad", "", "#", "plain text", "-v"]')).toBe([
+            '- "yes"', '- "null"', '- "1.0"', '- "2024-01-15"', '- "- x"', '- "a: b"', '- "a #b"', '- " pad"', '- ""', '- "#"',
+            "- plain text", "- -v", "",
+        ].join("\n"));
+    });
+
+    it("writes multi-line strings as literal blocks", () => {
+        expect(yaml('{"script": "echo a\\necho b\\n", "note": "one\\ntwo"}')).toBe("script: |\n  echo a\n  echo b\nnote: |-\n  one\n  two\n");
+    });
+
+    it("round-trips through parseYaml", () => {
+        const values = [
+            '{"a":{"b":[1,{"c":"d\\n\\n  e\\n\\n"},[]],"f":"  lead\\nx"},"g":[["h"],[]],"i":"\\ttab","j":null,"k":-0.5e10}',
+            '[{"x":"line\\r\\nbreak"},"\\u2028",true]',
+        ];
+        for (const value of values) {
+            expect(stringifyJson(parseYaml(yaml(value)), "")).toBe(stringifyJson(parseJson(value), ""));
+        }
+    });
+});
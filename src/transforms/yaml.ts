@@ -0,0 +1,475 @@
+import { type JsonNode } from "./json.js";
+import { TransformError } from "./shared.js";
+
+/**
+ * JSON to YAML and back, for moving config between Kubernetes manifests and JSON APIs.
+ *
+ * Written here rather than pulled in as a dependency, so it reads a subset of YAML rather than all
+ * of it: block mappings and sequences, plain and quoted scalars, literal `|` and folded `>` block
+ * scalars, and flow collections that fit on one line, such as `[a, b]` and `{}`. That is what
+ * manifests and most config files are made of. Everything else — anchors and aliases, tags,
+ * complex keys, several documents, and scalars or flow collections continued over lines — is
+ * refused by name with its line and column, since a converter that quietly misreads config is
+ * worse than one that says it cannot.
+ *
+ * Plain scalars are typed by the YAML 1.2 core schema, as current parsers do: `yes`, `no` and
+ * `on` are strings, and only `true` and `false` are booleans.
+ */
+
+type Line = { text: string; indent: number };
+
+/**
+ * Parses the supported subset of YAML into a {@link JsonNode}.
+ *
+ * @throws TransformError on invalid YAML, or YAML outside the subset, saying which, with the line
+ * and column as the key title.
+ */
+export function parseYaml(source: string): JsonNode {
+    const texts = source.split(/\r?\n/);
+    // A final line break ends the last line rather than starting another, which would count as
+    // one more blank line at the end of a keep-chomped block scalar.
+    if (texts.length > 1 && texts[texts.length - 1] === "") texts.pop();
+    const lines: Line[] = texts.map(text => ({ text, indent: text.search(/[^ ]|$/) }));
+    let row = 0;
+
+    // Declarations rather than arrows, so TypeScript knows code after a call is unreachable.
+    function fail(message: string, line: number, column: number): never {
+        throw new TransformError(`${message} at line ${line + 1}, column ${column + 1}`, `Line ${line + 1}\nCol ${column + 1}`);
+    }
+    function invalid(what: string, line: number, column: number): never {
+        return fail(`Invalid YAML: ${what}`, line, column);
+    }
+    function unsupported(what: string, line: number, column: number): never {
+        return fail(`Unsupported YAML: ${what} ${what.endsWith("s") ? "are" : "is"} not supported`, line, column);
+    }
+
+    /** Blank lines and comment-only lines carry nothing outside a block scalar. */
+    const isBlank = (line: Line): boolean => /^\s*(?:#.*)?$/.test(line.text);
+
+    /**
+     * Moves to the next line with content, checking its indentation is spaces; false at the end of
+     * the text or of the document.
+     */
+    const advance = (): boolean => {
+        while (row < lines.length && isBlank(lines[row])) row++;
+        if (row >= lines.length) return false;
+        const { text, indent } = lines[row];
+        if (text[indent] === "\t") invalid("tabs cannot indent", row, indent);
+        if (indent === 0 && /^\.\.\.(?:\s|$)/.test(text)) return false;
+        if (indent === 0 && /^---(?:\s|$)/.test(text)) unsupported("more than one document", row, 0);
+        return true;
+    };
+
+    /** Where a comment starts in `text` from `from`, outside quotes: a `#` after whitespace. */
+    const commentAt = (text: string, from: number): number => {
+        const at = text.slice(from).search(/(?:^|\s)#/);
+        return at === -1 ? text.length : from + at;
+    };
+
+    /** Refuses the node properties this parser does not read. */
+    const checkProperties = (text: string, line: number, column: number): void => {
+        if (text.startsWith("&")) unsupported("anchors", line, column);
+        if (text.startsWith("*")) unsupported("aliases", line, column);
+        if (text.startsWith("!")) unsupported("tags", line, column);
+        if (/^\?(?:\s|$)/.test(text)) unsupported("complex keys", line, column);
+        if (/^-(?:\s|$)/.test(text)) invalid("a sequence cannot start here", line, column);
+        if (/^[%@`]/.test(text)) invalid(`"${text[0]}" cannot start a plain scalar`, line, column);
+    };
+
+    /** A plain scalar, typed by the core schema. */
+    const plain = (text: string, line: number, column: number): JsonNode => {
+        if (text === "" || text === "~" || /^(?:null|Null|NULL)$/.test(text)) return { type: "literal", value: null };
+        if (/^(?:true|True|TRUE)$/.test(text)) return { type: "literal", value: true };
+        if (/^(?:false|False|FALSE)$/.test(text)) return { type: "literal", value: false };
+        if (/^[-+]?\.(?:inf|Inf|INF|nan|NaN|NAN)$/.test(text)) {
+            invalid(`${text} has no equivalent in JSON`, line, column);
+        }
+        const number = jsonNumber(text);
+        if (number !== null) return { type: "number", raw: number };
+        if (/:(?:\s|$)/.test(text)) invalid("a mapping value cannot go here", line, column + text.search(/:(?:\s|$)/));
+        return { type: "string", value: text };
+    };
+
+    /** A quoted scalar starting at `start`, and where it ends. Both must be on one line. */
+    const quoted = (text: string, start: number, line: number): { value: string; end: number } => {
+        const quote = text[start];
+        if (quote === "'") {
+            const m = /^'((?:[^']|'')*)'/.exec(text.slice(start));
+            if (!m) unsupported("quoted strings over several lines", line, start);
+            return { value: m[1].replace(/''/g, "'"), end: start + m[0].length };
+        }
+        const m = /^"((?:[^"\\]|\\.)*)"/.exec(text.slice(start));
+        if (!m) unsupported("quoted strings over several lines", line, start);
+        return { value: unescapeDouble(m[1], e => invalid(`unknown escape "\\${e}"`, line, start)), end: start + m[0].length };
+    };
+
+    /** Only a comment, or nothing, may follow a complete value on its line. */
+    const expectEnd = (text: string, at: number, line: number): void => {
+        const rest = text.slice(at);
+        if (!/^\s*(?:#.*)?$/.test(rest)) invalid("unexpected text after the value", line, at + rest.search(/\S/));
+    };
+
+    /** A flow collection, `[…]` or `{…}`, which must close on the line it opens. */
+    const flow = (text: string, start: number, line: number): { node: JsonNode; end: number } => {
+        let at = start;
+        const space = () => { while (text[at] === " ") at++; };
+        const open = (): never => unsupported("flow collections over several lines", line, start);
+        const scalar = (role: "key" | "value" | "item"): JsonNode => {
+            space();
+            const c = text[at];
+            if (c === undefined) return open();
+            if (c === "[" || c === "{") return collection();
+            if (c === "'" || c === "\"") {
+                const q = quoted(text, at, line);
+                at = q.end;
+                return { type: "string", value: q.value };
+            }
+            checkProperties(text.slice(at), line, at);
+            const from = at;
+            const stop = role === "key" ? /[,[\]{}]|:(?=[\s,[\]{}]|$)|\s#/ : /[,[\]{}]|\s#/;
+            const end = text.slice(at).search(stop);
+            at = end === -1 ? text.length : at + end;
+            const raw = text.slice(from, at).trim();
+            if (role === "item" && /:(?:\s|$)/.test(raw)) unsupported("single-pair mappings inside a flow sequence", line, from);
+            return plain(raw, line, from);
+        };
+        const collection = (): JsonNode => {
+            const close = text[at] === "[" ? "]" : "}";
+            at++;
+            const items: JsonNode[] = [];
+            const entries: [string, JsonNode][] = [];
+            for (;;) {
+                space();
+                if (at >= text.length || text[at] === "#") return open();
+                if (text[at] === close) {
+                    at++;
+                    return close === "]" ? { type: "array", items } : { type: "object", entries };
+                }
+                if (close === "]") {
+                    items.push(scalar("item"));
+                } else {
+                    const keyAt = at;
+                    const key = scalar("key");
+                    if (key.type === "array" || key.type === "object") unsupported("collections as keys", line, keyAt);
+                    space();
+                    if (text[at] === ":") {
+                        at++;
+                        entries.push([keyText(key), /^\s*[,}]/.test(text.slice(at)) ? NULL : scalar("value")]);
+                    } else {
+                        entries.push([keyText(key), NULL]);
+                    }
+                }
+                space();
+                if (text[at] === ",") at++;
+                else if (text[at] !== close) {
+                    if (at >= text.length || text[at] === "#") return open();
+                    invalid(`expected "," or "${close}"`, line, at);
+                }
+            }
+        };
+        const node = collection();
+        return { node, end: at };
+    };
+
+    /**
+     * A block scalar, `|` or `>`, whose header is `header` and whose content is the lines after it
+     * indented further than `parent`.
+     */
+    const blockScalar = (header: string, column: number, parent: number): JsonNode => {
+        const line = row;
+        const m = /^([|>])(?:([1-9])([+-]?)|([+-]?)([1-9])?)\s*(?:#.*)?$/.exec(header);
+        if (!m) invalid("a block scalar header is malformed", line, column);
+        const folded = m[1] === ">";
+        const chomp = m[3] || m[4] || "";
+        const explicit = m[2] ?? m[5];
+        row++;
+        let indent = explicit ? Math.max(parent, 0) + Number(explicit) : -1;
+        const content: string[] = [];
+        while (row < lines.length) {
+            const { text, indent: at } = lines[row];
+            if (text.trim() === "") {
+                content.push(text.slice(indent === -1 ? text.length : Math.min(indent, text.length)));
+                row++;
+                continue;
+            }
+            if (indent === -1) {
+                if (at <= parent) break;
+                indent = at;
+            }
+            if (at < indent) break;
+            content.push(text.slice(indent));
+            row++;
+        }
+        // Trailing blank lines belong to the chomping, not the content.
+        let trailing = 0;
+        while (content.length > 0 && content[content.length - 1].trim() === "") {
+            content.pop();
+            trailing++;
+        }
+        let value = folded ? fold(content) : content.join("\n");
+        if (content.length > 0 && chomp !== "-") value += "\n";
+        if (chomp === "+") value += "\n".repeat(trailing);
+        return { type: "string", value };
+    };
+
+    /**
+     * A value written after `- ` or `key: ` on the line at `row`, from `column`. `parent` is the
+     * indentation of the sequence or mapping it belongs to.
+     */
+    const inlineValue = (text: string, column: number, parent: number): JsonNode => {
+        const line = row;
+        const c = text[column];
+        if (c === "|" || c === ">") return blockScalar(text.slice(column), column, parent);
+        let node: JsonNode;
+        if (c === "'" || c === "\"") {
+            const q = quoted(text, column, line);
+            expectEnd(text, q.end, line);
+            node = { type: "string", value: q.value };
+        } else if (c === "[" || c === "{") {
+            const f = flow(text, column, line);
+            expectEnd(text, f.end, line);
+            node = f.node;
+        } else {
+            checkProperties(text.slice(column), line, column);
+            node = plain(text.slice(column, commentAt(text, column)).trim(), line, column);
+        }
+        row++;
+        // Anything indented under a scalar would continue it.
+        if (advance() && lines[row].indent > parent) {
+            unsupported("plain scalars over several lines", row, lines[row].indent);
+        }
+        return node;
+    };
+
+    /** Where the `:` ending a key is on a line, from `column`, or -1 if the line is not a key. */
+    const keyEnd = (text: string, column: number): { key: string; colon: number } | null => {
+        if (text[column] === "'" || text[column] === "\"") {
+            const q = quoted(text, column, row);
+            const colon = text.slice(q.end).search(/\S/);
+            if (colon === -1 || text[q.end + colon] !== ":" || !/^(?:\s|$)/.test(text.slice(q.end + colon + 1))) return null;
+            return { key: q.value, colon: q.end + colon };
+        }
+        const limit = commentAt(text, column);
+        const m = /:(?:\s|$)/.exec(text.slice(column, limit) + " ");
+        if (!m) return null;
+        return { key: text.slice(column, column + m.index).trim(), colon: column + m.index };
+    };
+
+    const isSequenceItem = (text: string, column: number): boolean => /^-(?:\s|$)/.test(text.slice(column));
+
+    /** A block sequence whose dashes are at `indent`, on the line at `row` and after. */
+    const sequence = (indent: number): JsonNode => {
+        const items: JsonNode[] = [];
+        while (advance() && lines[row].indent === indent && isSequenceItem(lines[row].text, indent)) {
+            items.push(entryValue(lines[row].text, indent + 1, indent, true));
+        }
+        return { type: "array", items };
+    };
+
+    /** A block mapping whose keys are at `indent`, on the line at `row` and after. */
+    const mapping = (indent: number): JsonNode => {
+        const entries: [string, JsonNode][] = [];
+        const seen = new Set<string>();
+        while (advance() && lines[row].indent === indent && !isSequenceItem(lines[row].text, indent)) {
+            const { text } = lines[row];
+            checkProperties(text.slice(indent), row, indent);
+            const key = keyEnd(text, indent);
+            if (key === null) invalid("expected a key and a colon", row, indent);
+            if (key.key === "<<") unsupported("merge keys", row, indent);
+            if (seen.has(key.key)) invalid(`the key "${key.key}" appears twice`, row, indent);
+            seen.add(key.key);
+            entries.push([key.key, entryValue(text, key.colon + 1, indent, false)]);
+        }
+        return { type: "object", entries };
+    };
+
+    /**
+     * The value after a `-` or a key's `:` at `column`: on the same line, or as a block on the
+     * lines after. A mapping's value may be a sequence at the key's own indentation, as
+     * Kubernetes manifests are often written.
+     */
+    const entryValue = (text: string, column: number, indent: number, inSequence: boolean): JsonNode => {
+        const start = column + (text.slice(column).search(/\S|$/));
+        if (start < commentAt(text, column) && text[start] !== "#") {
+            if (inSequence && (isSequenceItem(text, start) || keyEnd(text, start) !== null)) {
+                // A collection starting on the dash's line continues at the column it started in.
+                lines[row] = { text: " ".repeat(start) + text.slice(start), indent: start };
+                return block(start);
+            }
+            return inlineValue(text, start, indent);
+        }
+        row++;
+        if (!advance()) return NULL;
+        const next = lines[row];
+        if (next.indent > indent) return block(next.indent);
+        if (!inSequence && next.indent === indent && isSequenceItem(next.text, indent)) return sequence(indent);
+        return NULL;
+    };
+
+    /** The node on the line at `row`, at `indent`. */
+    const block = (indent: number): JsonNode => {
+        const { text } = lines[row];
+        if (isSequenceItem(text, indent)) return sequence(indent);
+        if (text[indent] !== "[" && text[indent] !== "{" && keyEnd(text, indent) !== null) return mapping(indent);
+        return inlineValue(text, indent, indent - 1);
+    };
+
+    while (row < lines.length && isBlank(lines[row])) row++;
+    if (row < lines.length && lines[row].text.startsWith("%")) unsupported("directives", row, 0);
+    if (row < lines.length && /^---(?:\s|$)/.test(lines[row].text)) {
+        if (!/^---\s*(?:#.*)?$/.test(lines[row].text)) unsupported("values on the --- line", row, 4);
+        row++;
+    }
+    const root = advance() ? block(lines[row].indent) : NULL;
+    if (advance()) invalid("this line is indented inconsistently with the ones before", row, lines[row].indent);
+    // Stopped at a `...` ending the document, or at the end; after `...` only another document can follow.
+    row++;
+    if (advance()) unsupported("more than one document", row, 0);
+    return root;
+}
+
+const NULL: JsonNode = { type: "literal", value: null };
+
+/** A key as text. YAML allows any scalar as a key; JSON keys are strings, so others are written out. */
+function keyText(node: JsonNode): string {
+    switch (node.type) {
+        case "string":
+            return node.value;
+        case "number":
+            return node.raw;
+        case "literal":
+            return node.value === null ? "" : String(node.value);
+        default:
+            return "";
+    }
+}
+
+/**
+ * Folds a `>` block: lines join with a space, a blank line becomes a line break, and lines
+ * indented further than the rest keep their breaks, as YAML specifies.
+ */
+function fold(lines: readonly string[]): string {
+    // Blank lines before the first text are line breaks of their own, with nothing to fold into.
+    const leading = lines.findIndex(line => line !== "");
+    if (leading > 0) return "\n".repeat(leading) + fold(lines.slice(leading));
+    let out = "";
+    lines.forEach((line, i) => {
+        if (i === 0) {
+            out = line;
+            return;
+        }
+        const previous = lines[i - 1];
+        const literal = (s: string) => s === "" || /^\s/.test(s);
+        if (line === "") out += "\n";
+        else if (literal(line) || literal(previous)) out += (previous === "" ? "" : "\n") + line;
+        else out += (previous === "" ? "" : " ") + line;
+    });
+    return out;
+}
+
+const DOUBLE_ESCAPES: Readonly<Record<string, string>> = {
+    "0": "\0", a: "\x07", b: "\b", t: "\t", "\t": "\t", n: "\n", v: "\v", f: "\f", r: "\r", e: "\x1b",
+    " ": " ", "\"": "\"", "/": "/", "\\": "\\", N: "\u0085", _: "\u00a0", L: "\u2028", P: "\u2029",
+};
+
+function unescapeDouble(body: string, unknown: (escape: string) => never): string {
+    return body.replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|.)/g, (_, e: string) => {
+        if (e.length > 1) return String.fromCodePoint(Number.parseInt(e.slice(1), 16));
+        return Object.hasOwn(DOUBLE_ESCAPES, e) ? DOUBLE_ESCAPES[e] : unknown(e);
+    });
+}
+
+/**
+ * A YAML 1.2 core integer or float as JSON number text, or null if `text` is not one. Written out
+ * from the digits rather than through a double, so large ids keep every digit.
+ */
+function jsonNumber(text: string): string | null {
+    if (/^0x[0-9a-fA-F]+$/.test(text) || /^0o[0-7]+$/.test(text)) return BigInt(text).toString();
+    const m = /^([-+]?)(?:(\d+)(?:\.(\d*))?|\.(\d+))(?:[eE]([-+]?\d+))?$/.exec(text);
+    if (!m) return null;
+    const sign = m[1] === "-" ? "-" : "";
+    const digits = (m[2] ?? "").replace(/^0+(?=\d)/, "") || "0";
+    const fraction = m[3] ?? m[4] ?? "";
+    const exponent = m[5];
+    return `${sign}${digits}${fraction ? `.${fraction}` : ""}${exponent ? `e${exponent}` : ""}`;
+}
+
+/** Strings that another YAML parser would read as something else, including YAML 1.1's booleans. */
+const AMBIGUOUS = /^(?:~|null|true|false|yes|no|on|off|y|n|<<)$|^[-+]?\.?\d|^[-+]?\.(?:inf|nan)$/i;
+
+/** Whether a string can be written without quotes and still read back as the same string. */
+function isPlainSafe(s: string): boolean {
+    return s !== ""
+        && s === s.trim()
+        && !AMBIGUOUS.test(s)
+        && !/^[,[\]{}#&*!|>'"%@`]|^[-?:](?:\s|$)/.test(s)
+        && !/:(?:\s|$)|\s#/.test(s)
+        && !/[\x00-\x1f\x7f-\x9f\u2028\u2029\ufeff]/.test(s);
+}
+
+function scalarText(s: string): string {
+    return isPlainSafe(s) ? s : JSON.stringify(s);
+}
+
+/** Whether a string reads best as a literal block: several lines, all printable. */
+function isLiteralBlock(s: string): boolean {
+    return s.includes("\n") && s.trim() !== "" && !/[\x00-\x08\x0b-\x1f\x7f-\x9f\u2028\u2029\ufeff]/.test(s);
+}
+
+/** Step per nesting level, as kubectl and most tools write YAML. */
+const STEP = "  ";
+
+function literalBlock(s: string, pad: string): string[] {
+    const body = s.replace(/\n+$/, "");
+    const trailing = s.length - body.length;
+    const chomp = trailing === 0 ? "-" : trailing === 1 ? "" : "+";
+    // Content starting with a space needs its indentation stated, or it would be taken for more.
+    const indicator = /^\n*[ ]/.test(body) ? String(STEP.length) : "";
+    const content = (trailing > 1 ? s.slice(0, -1) : body).split("\n");
+    return [`|${indicator}${chomp}`, ...content.map(line => (line === "" ? "" : pad + line))];
+}
+
+/**
+ * The lines of `node` as a YAML block at nesting `pad`. A scalar is one line to go after
+ * `key: ` or `- `; a collection starts on its own line.
+ */
+function emit(node: JsonNode, pad: string): string[] {
+    switch (node.type) {
+        case "object":
+            if (node.entries.length === 0) return ["{}"];
+            return node.entries.flatMap(([key, value]) => entry(`${pad}${scalarText(key)}:`, value, pad));
+        case "array":
+            if (node.items.length === 0) return ["[]"];
+            return node.items.flatMap(item => {
+                if ((item.type === "object" && item.entries.length > 0) || (item.type === "array" && item.items.length > 0)) {
+                    // The first line of a nested collection goes on the dash's line.
+                    const [first, ...rest] = emit(item, pad + STEP);
+                    return [`${pad}- ${first.slice(pad.length + STEP.length)}`, ...rest];
+                }
+                return entry(`${pad}-`, item, pad);
+            });
+        case "string":
+            // At the top level there is no parent to state an indentation against, so a block
+            // starting with a space is quoted instead.
+            return isLiteralBlock(node.value) && (pad !== "" || !/^\n*[ ]/.test(node.value))
+                ? literalBlock(node.value, pad)
+                : [scalarText(node.value)];
+        case "number":
+            return [node.raw];
+        case "literal":
+            return [String(node.value)];
+    }
+}
+
+/** One mapping entry or sequence item: `lead` then the value, inline or as a nested block. */
+function entry(lead: string, value: JsonNode, pad: string): string[] {
+    const collection = (value.type === "object" && value.entries.length > 0) || (value.type === "array" && value.items.length > 0);
+    if (collection) return [lead, ...emit(value, pad + STEP)];
+    const [first, ...rest] = emit(value, pad + STEP);
+    return [`${lead} ${first}`, ...rest];
+}
+
+/** YAML for a JSON value, ending with a line break as files do. */
+export function toYaml(node: JsonNode): string {
+    return `${emit(node, "").join("\n")}\n`;
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { outputText, readClipboard, useBackend, writeClipboard } from "./typing.js";
+import { createRecordingBackend, type RecordingBackend } from "./backends/recording.js";
+
+/** Points typing.ts at a fresh recording backend holding `clipboard`. */
+function record(clipboard = "", canType?: (text: string) => boolean): RecordingBackend {
+    const backend = createRecordingBackend({ clipboard, canType });
+    useBackend(backend);
+    return backend;
+}
+
+/** Runs a paste to completion, stepping over the settle delay before a restore. */
+async function settle(pending: Promise<void>): Promise<void> {
+    await vi.runAllTimersAsync();
+    await pending;
+}
+
+describe("outputText", () => {
+    afterEach(() => vi.useRealTimers());
+
+    it("types single-line text in automatic mode and leaves the clipboard alone", async () => {
+        const backend = record("what was copied");
+        await outputText("hello", "auto");
+        expect(backend.events).toEqual([{ kind: "type", text: "hello" }]);
+        expect(backend.clipboard).toBe("what was copied");
+    });
+
+    it("borrows the clipboard for multi-line text and puts the previous contents back", async () => {
+        vi.useFakeTimers();
+        const backend = record("what was copied");
+        await settle(outputText("line one\nline two", "auto"));
+        expect(backend.events).toEqual([
+            { kind: "write", text: "line one\nline two" },
+            { kind: "paste", text: "line one\nline two" },
+            { kind: "write", text: "what was copied" },
+        ]);
+        expect(backend.clipboard).toBe("what was copied");
+    });
+
+    it("waits for the paste to land before restoring", async () => {
+        vi.useFakeTimers();
+        const backend = record("what was copied");
+        const pending = outputText("a\tb", "auto");
+        await vi.advanceTimersByTimeAsync(0);
+        expect(backend.clipboard).toBe("a\tb");
+        await settle(pending);
+        expect(backend.clipboard).toBe("what was copied");
+    });
+
+    it("leaves the text on the clipboard when clipboard mode is chosen explicitly", async () => {
+        const backend = record("what was copied");
+        await outputText("hello", "clipboard");
+        expect(backend.delivered()).toEqual(["hello"]);
+        expect(backend.clipboard).toBe("hello");
+    });
+
+    it("types multi-line text when typing mode is chosen explicitly", async () => {
+        const backend = record();
+        await outputText("a\nb", "typing");
+        expect(backend.events).toEqual([{ kind: "type", text: "a\nb" }]);
+    });
+
+    it("falls back to a borrowed clipboard, and says so, when the backend cannot type the text", async () => {
+        vi.useFakeTimers();
+        const backend = record("before", text => /^[\x20-\x7E]*$/.test(text));
+        const warnings: string[] = [];
+        await settle(outputText("café", "typing", m => warnings.push(m)));
+        expect(backend.delivered()).toEqual(["café"]);
+        expect(backend.clipboard).toBe("before");
+        expect(warnings).toHaveLength(1);
+    });
+
+    it("warns when the previous clipboard could not be restored", async () => {
+        vi.useFakeTimers();
+        const backend = record("before");
+        const write = backend.writeClipboard;
+        let writes = 0;
+        backend.writeClipboard = async text => {
+            if (++writes === 2) throw new Error("pasteboard gone");
+            return write(text);
+        };
+        const warnings: string[] = [];
+        await settle(outputText("a\nb", "auto", m => warnings.push(m)));
+        expect(backend.delivered()).toEqual(["a\nb"]);
+        expect(warnings.join()).toMatch(/could not restore the previous clipboard/);
+    });
+
+    it("puts the previous clipboard back when the paste key fails", async () => {
+        vi.useFakeTimers();
+        const backend = record("before");
+        backend.pressPaste = async () => {
+            throw new Error("no keystroke tool");
+        };
+        const pending = outputText("a\nb", "auto");
+        const failed = expect(pending).rejects.toThrow("no keystroke tool");
+        await vi.runAllTimersAsync();
+        await failed;
+        expect(backend.clipboard).toBe("before");
+    });
+
+    it("does not restore over a clipboard it could not read", async () => {
+        vi.useFakeTimers();
+        const backend = record("an image");
+        backend.readClipboard = async () => {
+            throw new Error("xclip exited with code 1");
+        };
+        await settle(outputText("a\nb", "auto"));
+        expect(backend.events.map(e => e.kind)).toEqual(["write", "paste"]);
+    });
+
+    it("reads and writes through the selected backend", async () => {
+        const backend = record("copied");
+        expect(await readClipboard()).toBe("copied");
+        await writeClipboard("new");
+        expect(backend.clipboard).toBe("new");
+    });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, afterEach } from "vitest";
 import {
-    addClip, applyTransform, escapeForAppleScript, generateLabel, isGenerator,
+    addClip, applyPipeline, applyTransform, escapeForAppleScript, PipelineError, generateLabel, isGenerator,
     markClipUsed, moveClip, normaliseClips, removeClip, restoreClip, updateClip, classifySecret,
     applySecretVerdict,
     clipDisplayName,
@@ -182,6 +182,33 @@ describe("date generators", () => {
     });
 });
 
+describe("applyPipeline", () => {
+    it("runs each step on the previous step's output", () => {
+        expect(applyPipeline("  Hello World  ", ["trim", "lower", "dashcase"])).toBe("hello-world");
+    });
+    it("runs a single step like applyTransform", () => {
+        expect(applyPipeline("hello", ["upper"])).toBe("HELLO");
+    });
+    it("returns the input unchanged for an empty chain", () => {
+        expect(applyPipeline("hello", [])).toBe("hello");
+    });
+    it("passes text through count so it can end a chain", () => {
+        expect(applyPipeline(" a b ", ["trim", "count"])).toBe("a b");
+    });
+    it("names the step that failed and why", () => {
+        let caught: unknown;
+        try {
+            applyPipeline("%E0%A4%A", ["trim", "urldecode", "upper"]);
+        } catch (error) {
+            caught = error;
+        }
+        expect(caught).toBeInstanceOf(PipelineError);
+        expect(caught).toMatchObject({ step: 1, transform: "urldecode" });
+        expect((caught as PipelineError).reason).toMatch(/malformed/i);
+        expect((caught as PipelineError).message).toMatch(/^step 2 \(urldecode\) failed: /);
+    });
+});
+
 describe("isGenerator", () => {
     it("is true for transforms that ignore their input", () => {
         for (const t of ["uuid", "dateiso", "datetimeiso", "unixtime", "unixtimems"] as const) {
@@ -1,40 +1,213 @@
 import { randomUUID } from 'node:crypto';
-import { isIP } from 'node:net';
+import {
+    base32Decode, base32Encode, base64Decode, base64urlEncode, binaryDecode, binaryEncode, hexDecode, hexEncode, qpDecode, qpEncode,
+} from './transforms/encoding.js';
+import {
+    htmlEscape, htmlUnescape, jsonEscape, jsonUnescape, regexEscape, regexUnescape, shellEscape, shellUnescape, sqlEscape, sqlUnescape,
+} from './transforms/escape.js';
+import { convertColor } from './transforms/color.js';
+import { camelCase, constantCase, delimitedCase, pascalCase, sentenceCase, titleCase } from './transforms/case.js';
+import { type ExtractKind, extractAll, isEmail, isHexColor, isIpAddress, isUrl, isUuid } from './transforms/extract.js';
+import { csvToJson, csvToMarkdown, jsonToCsv } from './transforms/csv.js';
+import { type Cleaned, normalize, removeDiacritics, straightenQuotes, stripInvisible } from './transforms/cleanup.js';
+import { digest, hashEncoding, hmac, hmacAlgorithm } from './transforms/hash.js';
+import { applyDateOffset, DEFAULT_DATE_FORMAT, formatDate } from './transforms/dateformat.js';
+import { alphabetOption, nanoid, randomString, ulid, uuidv7 } from './transforms/ids.js';
+import { decodeJwt, isJwt } from './transforms/jwt.js';
+import {
+    dedent, dropBlankLines, hardWrap, indent, indentUnit, numberLines, reverseLines, shuffleLines, sortLines, uniqueLines,
+    unwrapParagraphs, wrapColumn,
+} from './transforms/lines.js';
+import { jsonIndent, parseJson, sortJsonKeys, stringifyJson } from './transforms/json.js';
+import { blockquote, bulletList, codeFence, markdownLink, numberedList } from './transforms/markdown.js';
+import { addSeparators, humanizeBytes, localeOption, parseBytes, stripSeparators, toBase } from './transforms/numbers.js';
+import { generatePassphrase, generatePassword, passphrasePolicy, passwordPolicy } from './transforms/password.js';
+import { regexReplace } from './transforms/regex.js';
+import { slugify, slugPolicy } from './transforms/slug.js';
+import { boolOption, TransformError } from './transforms/shared.js';
+import { parseYaml, toYaml } from './transforms/yaml.js';
+import { jsonToQuery, removeCredentials, stripTracking, urlCredentials, urlToJson } from './transforms/url.js';
+import { formatIso, isIsoDateTime, localDate, localTime, parseTimestamp, timeZoneOption } from './transforms/time.js';
 
-export type TransformType = 'upper' | 'lower' | 'titlecase' | 'camelCase' | 'dashcase' | 'snakecase' | 'trim' | 'urlencode' | 'urldecode' | 'base64encode' | 'base64decode' | 'count' | 'uuid' | 'dateiso' | 'datetimeiso' | 'unixtime' | 'unixtimems';
+export { TransformError };
+export { escapeForAppleScript } from './transforms/escape.js';
+
+export type TransformType = 'upper' | 'lower' | 'titlecase' | 'camelCase' | 'dashcase' | 'snakecase'
+    | 'pascalcase' | 'constantcase' | 'dotcase' | 'pathcase' | 'sentencecase' | 'slugify'
+    | 'trim' | 'urlencode' | 'urldecode' | 'base64encode' | 'base64decode' | 'count' | 'uuid' | 'dateiso' | 'datetimeiso' | 'unixtime' | 'unixtimems'
+    | 'jsonpretty' | 'jsonminify' | 'jsonsortkeys' | 'jsonvalidate' | 'jsontoyaml' | 'yamltojson'
+    | 'csvtojson' | 'csvtomarkdown' | 'jsontocsv'
+    | 'mdcodeblock' | 'mdquote' | 'mdbullets' | 'mdnumbered' | 'mdlink' | 'mdtable'
+    | 'urltojson' | 'jsontoquery' | 'striptracking' | 'removecredentials'
+    | 'extracturls' | 'extractemails' | 'extractips' | 'extractuuids' | 'extractnumbers' | 'extractcolors'
+    | 'colortohex' | 'colortorgb' | 'colortohsl' | 'colortooklch'
+    | 'numtodec' | 'numtohex' | 'numtooct' | 'numtobin' | 'humanbytes' | 'parsebytes' | 'addseparators' | 'stripseparators'
+    | 'regexreplace'
+    | 'md5' | 'sha1' | 'sha256' | 'sha512' | 'hmac'
+    | 'jwtdecode'
+    | 'hexencode' | 'hexdecode' | 'base32encode' | 'base32decode' | 'base64urlencode' | 'base64urldecode'
+    | 'binaryencode' | 'binarydecode' | 'qpencode' | 'qpdecode'
+    | 'jsonescape' | 'jsonunescape' | 'shellescape' | 'shellunescape' | 'sqlescape' | 'sqlunescape'
+    | 'regexescape' | 'regexunescape' | 'htmlescape' | 'htmlunescape'
+    | 'findinvisible' | 'stripinvisible' | 'nfc' | 'nfkc' | 'straightenquotes' | 'removediacritics'
+    | 'sortlines' | 'uniquelines' | 'reverselines' | 'shufflelines' | 'numberlines' | 'dropblanklines'
+    | 'dedent' | 'indent' | 'hardwrap' | 'unwrap'
+    | 'tounix' | 'tounixms' | 'toiso'
+    | 'datecustom'
+    | 'uuidv7' | 'ulid' | 'nanoid' | 'randomstring'
+    | 'password' | 'passphrase';
+
+/**
+ * Per-key settings that some transforms read.
+ *
+ * Stored flat in the key's settings beside `transform`, so the property inspector can bind each
+ * field directly. Values arrive as the inspector wrote them — numbers as strings — and may be
+ * absent in a profile saved before the option existed, so every reader parses defensively and
+ * falls back to a default.
+ */
+export type TransformOptions = {
+    /** Spaces per level for formatted JSON, or `tab`. */
+    jsonIndent?: string | number;
+    /** What `regexreplace` finds, as JavaScript regex source without slashes. */
+    regexPattern?: string;
+    /** What it substitutes; `$1`, `$<name>` and `$&` refer to the match, `\n` and `\t` expand. */
+    regexReplacement?: string;
+    /** Regex flags. Absent means `g`; an empty string means none, so only the first match is replaced. */
+    regexFlags?: string;
+    /** `hex` or `base64`, for the digests and HMAC. */
+    hashEncoding?: string;
+    /**
+     * The HMAC secret. Shown as {@link MASK} wherever the plugin displays it, and never logged.
+     * It is stored in the profile like every other setting, as a webhook secret pasted into
+     * any other tool would be.
+     */
+    hmacKey?: string;
+    /** `md5`, `sha1`, `sha256` (the default) or `sha512`. */
+    hmacAlgorithm?: string;
+    /** Whether JWT Decode adds a line per time claim after the JSON. On unless turned off. */
+    jwtDates?: boolean | string;
+    /**
+     * IANA time zone, e.g. `Europe/Berlin`, for times converted to ISO and for reading an ISO time
+     * that has no offset. Blank means this computer's zone.
+     */
+    timeZone?: string;
+    /** Format tokens for the custom date, e.g. `DD/MM/YYYY HH:mm`; `[…]` is literal text. */
+    dateFormat?: string;
+    /** How far the custom date is from now, e.g. `+7d`, `-1h 30m` or `next Monday`. */
+    dateOffset?: string;
+    /** Characters in a random string, 1–256. */
+    randomLength?: string | number;
+    /** A preset (`alphanumeric`, `lower`, `upper`, `digits`, `hex`, `crockford`, `urlsafe`) or the characters to use. */
+    randomAlphabet?: string;
+    /** Hyphenate a random string every this many characters; 0 or absent for one run. */
+    randomGroup?: string | number;
+    /** Characters in a password, 8–128. */
+    passwordLength?: string | number;
+    /**
+     * Per character class: `off`, or the least number of them a password must contain, where `0`
+     * allows them without requiring any. Absent means at least one.
+     */
+    passwordLower?: string;
+    passwordUpper?: string;
+    passwordDigits?: string;
+    passwordSymbols?: string;
+    /** Leave out characters that read alike, such as `l`, `1` and `I`. On unless turned off. */
+    passwordExcludeSimilar?: boolean | string;
+    /** Words in a passphrase, 3–12. */
+    passphraseWords?: string | number;
+    /** Between the words; absent means `-`, and an empty string runs them together. */
+    passphraseSeparator?: string;
+    /** Start every word with a capital. */
+    passphraseCapitalize?: boolean | string;
+    /** Add a digit to the end of one word. */
+    passphraseDigit?: boolean | string;
+    /** Between the words of a slug: `-` (the default), `_` or `.`. */
+    slugSeparator?: string;
+    /** Longest slug in characters; 0 or absent for no limit. */
+    slugMaxLength?: string | number;
+    /** Write a hex colour as `#rgb` or `#rgba` when that loses nothing, so `#ffcc00` is `#fc0`. */
+    colorShortHex?: boolean | string;
+    /** BCP 47 tag, e.g. `de-DE`, for where thousands separators go. Blank means this computer's locale. */
+    numberLocale?: string;
+    /** Spaces to indent by, 1–16, or `tab`. Absent means four spaces. */
+    indentBy?: string | number;
+    /** The longest a hard-wrapped line may be, 20–1000 characters. Absent means 80. */
+    wrapColumn?: string | number;
+};
 
 /**
  * Transforms that produce their own output and ignore the incoming text. Callers must not
  * treat an empty clipboard as an error for these.
  */
 const GENERATORS: ReadonlySet<TransformType> = new Set<TransformType>([
-    'uuid', 'dateiso', 'datetimeiso', 'unixtime', 'unixtimems',
+    'uuid', 'dateiso', 'datetimeiso', 'unixtime', 'unixtimems', 'datecustom',
+    'uuidv7', 'ulid', 'nanoid', 'randomstring', 'password', 'passphrase',
 ]);
 
 export function isGenerator(transform: TransformType): boolean {
     return GENERATORS.has(transform);
 }
 
-function pad2(n: number): string {
-    return String(n).padStart(2, '0');
+/**
+ * Generators whose output is a credential. Their keys type the value rather than paste it unless
+ * told otherwise, so it never sits on the clipboard where clipboard history and other apps can
+ * read it, and nothing in the plugin shows or logs it.
+ */
+const SECRETS: ReadonlySet<TransformType> = new Set<TransformType>([
+    'password', 'passphrase',
+]);
+
+export function isSecret(transform: TransformType): boolean {
+    return SECRETS.has(transform);
 }
 
 /**
- * Formats the *local* calendar date as `YYYY-MM-DD`.
- *
- * Deliberately not `toISOString().slice(0, 10)`, which formats in UTC and therefore reports
- * the wrong day for anyone whose local date differs from UTC's at the time of use.
+ * Transforms that say something about the text rather than change it. They pass their input
+ * through, so they can sit mid-chain, but a chain that *ends* in one reports instead of typing
+ * the text back unchanged.
  */
-function localDate(d: Date): string {
-    return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+const REPORTS: ReadonlySet<TransformType> = new Set<TransformType>([
+    'count', 'jsonvalidate', 'findinvisible',
+]);
+
+export function isReport(transform: TransformType): boolean {
+    return REPORTS.has(transform);
 }
 
-/** Formats the local wall-clock time as `HH:mm:ss`. */
-function localTime(d: Date): string {
-    return `${pad2(d.getHours())}:${pad2(d.getMinutes())}:${pad2(d.getSeconds())}`;
+/**
+ * Transforms that tidy text without changing what it says. Each counts what it changed, so a key
+ * can show the count: removing an invisible character is otherwise invisible too.
+ */
+type Cleanup = Extract<TransformType, 'stripinvisible' | 'nfc' | 'nfkc' | 'straightenquotes' | 'removediacritics'>;
+
+const CLEANUPS: Readonly<Record<Cleanup, (text: string) => Cleaned>> = {
+    stripinvisible: stripInvisible,
+    nfc: text => normalize(text, 'NFC'),
+    nfkc: text => normalize(text, 'NFKC'),
+    straightenquotes: straightenQuotes,
+    removediacritics: removeDiacritics,
+};
+
+export function isCleanup(transform: TransformType): transform is Cleanup {
+    return Object.hasOwn(CLEANUPS, transform);
 }
 
-export function applyTransform(text: string, transform: TransformType): string {
+/** What each extract transform pulls out of the text. */
+const EXTRACTS: Readonly<Record<Extract<TransformType, `extract${string}`>, ExtractKind>> = {
+    extracturls: 'url',
+    extractemails: 'email',
+    extractips: 'ip',
+    extractuuids: 'uuid',
+    extractnumbers: 'number',
+    extractcolors: 'color',
+};
+
+/**
+ * Applies one transform.
+ *
+ * @throws TransformError when the input cannot be transformed, with the reason.
+ */
+export function applyTransform(text: string, transform: TransformType, options: TransformOptions = {}): string {
     switch (transform) {
         case 'upper':
             return text.toUpperCase();
@@ -43,17 +216,67 @@ export function applyTransform(text: string, transform: TransformType): string {
         case 'base64encode':
             return Buffer.from(text).toString('base64');
         case 'base64decode':
-            return Buffer.from(text, 'base64').toString('utf8');
-        case 'camelCase': {
-            const words = text.trim().split(/[\s\-_]+/);
-            return words[0].toLowerCase() + words.slice(1).map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join('');
-        }
+            return base64Decode(text, 'base64');
+        case 'base64urlencode':
+            return base64urlEncode(text);
+        case 'base64urldecode':
+            return base64Decode(text, 'base64url');
+        case 'hexencode':
+            return hexEncode(text);
+        case 'hexdecode':
+            return hexDecode(text);
+        case 'base32encode':
+            return base32Encode(text);
+        case 'base32decode':
+            return base32Decode(text);
+        case 'binaryencode':
+            return binaryEncode(text);
+        case 'binarydecode':
+            return binaryDecode(text);
+        case 'qpencode':
+            return qpEncode(text);
+        case 'qpdecode':
+            return qpDecode(text);
+        case 'jsonescape':
+            return jsonEscape(text);
+        case 'jsonunescape':
+            return jsonUnescape(text);
+        case 'shellescape':
+            return shellEscape(text);
+        case 'shellunescape':
+            return shellUnescape(text);
+        case 'sqlescape':
+            return sqlEscape(text);
+        case 'sqlunescape':
+            return sqlUnescape(text);
+        case 'regexescape':
+            return regexEscape(text);
+        case 'regexunescape':
+            return regexUnescape(text);
+        case 'htmlescape':
+            return htmlEscape(text);
+        case 'htmlunescape':
+            return htmlUnescape(text);
+        case 'camelCase':
+            return camelCase(text);
+        case 'pascalcase':
+            return pascalCase(text);
         case 'dashcase':
-            return text.trim().toLowerCase().replace(/[\s_]+/g, '-');
+            return delimitedCase(text, '-');
         case 'snakecase':
-            return text.trim().toLowerCase().replace(/[\s\-]+/g, '_');
+            return delimitedCase(text, '_');
+        case 'dotcase':
+            return delimitedCase(text, '.');
+        case 'pathcase':
+            return delimitedCase(text, '/');
+        case 'constantcase':
+            return constantCase(text);
+        case 'sentencecase':
+            return sentenceCase(text);
         case 'titlecase':
-            return text.replace(/\w\S*/g, w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase());
+            return titleCase(text);
+        case 'slugify':
+            return slugify(text, slugPolicy(options));
         case 'trim':
             return text.trim();
         case 'urlencode':
@@ -61,7 +284,34 @@ export function applyTransform(text: string, transform: TransformType): string {
         case 'urldecode':
             return decodeURIComponent(text.trim());
         case 'count':
+        case 'findinvisible':
             return text;
+        case 'sortlines':
+            return sortLines(text);
+        case 'uniquelines':
+            return uniqueLines(text);
+        case 'reverselines':
+            return reverseLines(text);
+        case 'shufflelines':
+            return shuffleLines(text);
+        case 'numberlines':
+            return numberLines(text);
+        case 'dropblanklines':
+            return dropBlankLines(text);
+        case 'dedent':
+            return dedent(text);
+        case 'indent':
+            return indent(text, indentUnit(options.indentBy));
+        case 'hardwrap':
+            return hardWrap(text, wrapColumn(options.wrapColumn));
+        case 'unwrap':
+            return unwrapParagraphs(text);
+        case 'stripinvisible':
+        case 'nfc':
+        case 'nfkc':
+        case 'straightenquotes':
+        case 'removediacritics':
+            return CLEANUPS[transform](text).text;
         case 'uuid':
             // Generator, not a transform — ignores the incoming text
             return randomUUID();
@@ -78,26 +328,180 @@ export function applyTransform(text: string, transform: TransformType): string {
         case 'unixtimems':
             // Milliseconds, matching JavaScript's Date.now() and most JSON APIs
             return String(Date.now());
+        case 'jsonpretty':
+            return stringifyJson(parseJson(text), jsonIndent(options.jsonIndent));
+        case 'jsonminify':
+            return stringifyJson(parseJson(text), '');
+        case 'jsonsortkeys':
+            return stringifyJson(sortJsonKeys(parseJson(text)), jsonIndent(options.jsonIndent));
+        case 'jsontoyaml':
+            return toYaml(parseJson(text));
+        case 'yamltojson':
+            return stringifyJson(parseYaml(text), jsonIndent(options.jsonIndent));
+        case 'csvtojson':
+            return csvToJson(text, jsonIndent(options.jsonIndent));
+        case 'csvtomarkdown':
+            return csvToMarkdown(text);
+        case 'jsontocsv':
+            return jsonToCsv(text);
+        case 'mdcodeblock':
+            // Only JSON is recognised surely enough to label; a wrong label highlights worse than none.
+            return codeFence(text, detectClipKind(text) === 'json' ? 'json' : '');
+        case 'mdquote':
+            return blockquote(text);
+        case 'mdbullets':
+            return bulletList(text);
+        case 'mdnumbered':
+            return numberedList(text);
+        case 'mdlink': {
+            const parts = splitUrl(text);
+            if (!parts) throw new TransformError('Not a URL: expected a whole http or https URL', 'Not\nURL');
+            return markdownLink(text.trim(), parts.host);
+        }
+        case 'mdtable':
+            // Tab-separated whatever else the rows hold, as a spreadsheet copies them, so a cell
+            // with commas in it is never taken for several.
+            return csvToMarkdown(text, '\t');
+        case 'urltojson':
+            return urlToJson(text, jsonIndent(options.jsonIndent));
+        case 'jsontoquery':
+            return jsonToQuery(text);
+        case 'striptracking':
+            return stripTracking(text);
+        case 'removecredentials':
+            return removeCredentials(text);
+        case 'extracturls':
+        case 'extractemails':
+        case 'extractips':
+        case 'extractuuids':
+        case 'extractnumbers':
+        case 'extractcolors':
+            return extractAll(text, EXTRACTS[transform]);
+        case 'colortohex':
+            return convertColor(text, 'hex', boolOption(options.colorShortHex, false));
+        case 'colortorgb':
+            return convertColor(text, 'rgb', false);
+        case 'colortohsl':
+            return convertColor(text, 'hsl', false);
+        case 'colortooklch':
+            return convertColor(text, 'oklch', false);
+        case 'numtodec':
+            return toBase(text, 10);
+        case 'numtohex':
+            return toBase(text, 16);
+        case 'numtooct':
+            return toBase(text, 8);
+        case 'numtobin':
+            return toBase(text, 2);
+        case 'humanbytes':
+            return humanizeBytes(text);
+        case 'parsebytes':
+            return parseBytes(text);
+        case 'addseparators':
+            return addSeparators(text, localeOption(options.numberLocale));
+        case 'stripseparators':
+            return stripSeparators(text, localeOption(options.numberLocale));
+        case 'jsonvalidate':
+            // Throws with the line and column when invalid; a report, so valid text passes through.
+            parseJson(text);
+            return text;
+        case 'regexreplace':
+            return regexReplace(
+                text, options.regexPattern ?? '', options.regexReplacement ?? '', options.regexFlags ?? 'g'
+            ).output;
+        case 'md5':
+        case 'sha1':
+        case 'sha256':
+        case 'sha512':
+            return digest(text, transform, hashEncoding(options.hashEncoding));
+        case 'hmac':
+            return hmac(text, options.hmacKey ?? '', hmacAlgorithm(options.hmacAlgorithm), hashEncoding(options.hashEncoding));
+        case 'jwtdecode':
+            // Decodes only: the token is never verified, and never leaves this process.
+            return decodeJwt(text, jsonIndent(options.jsonIndent), boolOption(options.jwtDates, true));
+        case 'tounix':
+            return String(Math.floor(parseTimestamp(text, timeZoneOption(options.timeZone)) / 1000));
+        case 'tounixms':
+            return String(parseTimestamp(text, timeZoneOption(options.timeZone)));
+        case 'toiso': {
+            const zone = timeZoneOption(options.timeZone);
+            return formatIso(parseTimestamp(text, zone), zone);
+        }
+        case 'uuidv7':
+            return uuidv7();
+        case 'ulid':
+            return ulid();
+        case 'nanoid':
+            return nanoid();
+        case 'randomstring':
+            return randomString(options.randomLength, alphabetOption(options.randomAlphabet), options.randomGroup);
+        case 'password':
+            return generatePassword(passwordPolicy(options));
+        case 'passphrase':
+            return generatePassphrase(passphrasePolicy(options));
+        case 'datecustom': {
+            const zone = timeZoneOption(options.timeZone);
+            const at = applyDateOffset(Date.now(), options.dateOffset ?? '', zone);
+            return formatDate(at, options.dateFormat?.trim() ? options.dateFormat : DEFAULT_DATE_FORMAT, zone);
+        }
     }
 }
 
 /**
- * Escapes text for embedding in an AppleScript double-quoted string literal.
- *
- * AppleScript treats `\` as an escape character inside strings, so unescaped input
- * containing backslashes (Windows paths, regexes, escaped JSON, LaTeX) is either
- * mangled or fails to compile. Newlines are converted to escape sequences so the
- * generated script always stays on a single line — a raw CR would otherwise
- * terminate the statement.
+ * Thrown by {@link applyPipeline}, naming the step that failed so a chain of five transforms
+ * does not fail as an anonymous "URI malformed".
+ */
+export class PipelineError extends Error {
+    constructor(
+        /** Zero-based position of the failing step. */
+        readonly step: number,
+        readonly transform: TransformType,
+        /** Why the step failed, phrased for a person. */
+        readonly reason: string,
+        /** The failing transform's own short summary, when it gave one. */
+        readonly keyTitle?: string
+    ) {
+        super(`step ${step + 1} (${transform}) failed: ${reason}`);
+    }
+}
+
+/**
+ * Runs `steps` in order, each on the previous step's output.
  *
- * Order matters: backslashes must be doubled before any other escape is introduced.
+ * A generator anywhere but first discards everything before it — allowed rather than refused,
+ * since it is pointless but not wrong. `count` passes its input through, so it can end a chain
+ * to report on the result.
+ */
+export function applyPipeline(
+    text: string,
+    steps: readonly TransformType[],
+    options: TransformOptions = {}
+): string {
+    return steps.reduce((current, transform, step) => {
+        try {
+            return applyTransform(current, transform, options);
+        } catch (error) {
+            throw new PipelineError(
+                step, transform,
+                error instanceof Error ? error.message : String(error),
+                error instanceof TransformError ? error.keyTitle : undefined
+            );
+        }
+    }, text);
+}
+
+/**
+ * Runs `steps` as {@link applyPipeline} does, and when the last is a cleanup, also says how many
+ * characters it changed. Cleanups cannot fail, so running the last one apart loses no error.
  */
-export function escapeForAppleScript(text: string): string {
-    return text
-        .replace(/\\/g, '\\\\')
-        .replace(/"/g, '\\"')
-        .replace(/\r/g, '\\r')
-        .replace(/\n/g, '\\n');
+export function applyPipelineCounted(
+    text: string,
+    steps: readonly TransformType[],
+    options: TransformOptions = {}
+): { text: string; changed?: number } {
+    const last = steps[steps.length - 1];
+    if (steps.length === 0 || !isCleanup(last)) return { text: applyPipeline(text, steps, options) };
+    return CLEANUPS[last](applyPipeline(text, steps.slice(0, -1), options));
 }
 
 /** A single stored clip inside a Quick Clips Manager collection. */
@@ -286,15 +690,11 @@ export function classifySecret(value: string): SecretVerdict {
     if (isJwt(text)) {
         return { secret: true, confidence: "identified", reason: "looks like a JWT", title: "JWT" };
     }
-    try {
-        if (new URL(text).password !== "") {
-            return {
-                secret: true, confidence: "identified",
-                reason: "carries a password in the URL", title: "URL with password",
-            };
-        }
-    } catch {
-        // not a URL — carry on
+    if (urlCredentials(text)?.password) {
+        return {
+            secret: true, confidence: "identified",
+            reason: "carries a password in the URL", title: "URL with password",
+        };
     }
     const decoded = decodeBase64Text(text);
     if (decoded !== null) {
@@ -350,45 +750,6 @@ export type ClipKind =
     | "json" | "url" | "path" | "email" | "uuid"
     | "jwt" | "color" | "ip" | "date" | "text";
 
-/**
- * True when the value is a JSON Web Token.
- *
- * Checked by decoding the header and requiring it to be a JSON object with an `alg`, rather than
- * matching the dot-separated shape — plenty of strings have two dots in them.
- */
-function isJwt(value: string): boolean {
-    const parts = value.split(".");
-    if (parts.length !== 3) return false;
-    // Header and payload must be base64url; the signature may legitimately be empty for alg=none.
-    if (!/^[A-Za-z0-9_-]+$/.test(parts[0]) || !/^[A-Za-z0-9_-]+$/.test(parts[1])) return false;
-    try {
-        const header: unknown = JSON.parse(Buffer.from(parts[0], "base64url").toString("utf8"));
-        return typeof header === "object" && header !== null
-            && typeof (header as { alg?: unknown }).alg === "string";
-    } catch {
-        return false;
-    }
-}
-
-/**
- * True for an ISO 8601 date or timestamp.
- *
- * The calendar values are checked, not just the digit pattern, so `2026-13-45` and `2026-02-30`
- * are rejected rather than badged as dates.
- */
-function isIsoDateTime(value: string): boolean {
-    const m = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?)?$/
-        .exec(value);
-    if (!m) return false;
-    const [, y, mo, d, hh, mm, ss] = m;
-    if (hh !== undefined && (+hh > 23 || +mm > 59 || (ss !== undefined && +ss > 60))) return false;
-    // Round-tripping through Date rejects impossible calendar days such as 31 February.
-    const date = new Date(`${y}-${mo}-${d}T00:00:00Z`);
-    return date.getUTCFullYear() === +y
-        && date.getUTCMonth() + 1 === +mo
-        && date.getUTCDate() === +d;
-}
-
 /**
  * Classifies a clip by shape.
  *
@@ -415,28 +776,19 @@ export function detectClipKind(value: string): ClipKind {
         }
     }
 
-    // Canonical 8-4-4-4-12 hex form, any version. Deliberately not restricted to v4: a v1 or v7
-    // identifier pasted from elsewhere is still a UUID, and labelling it "Text" would be wrong.
-    // Braced and urn:uuid: variants are excluded as vanishingly rare on a clipboard.
-    if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(trimmed)) {
-        return "uuid";
-    }
+    // Any version. Deliberately not restricted to v4: a v1 or v7 identifier pasted from
+    // elsewhere is still a UUID, and labelling it "Text" would be wrong.
+    if (isUuid(trimmed)) return "uuid";
 
     if (isJwt(trimmed)) return "jwt";
 
     // Single-token forms only; anything with internal whitespace is prose that happens to
     // mention a URL or an address.
-    if (/^https?:\/\/\S+$/i.test(trimmed)) return "url";
-
-    // #RGB, #RGBA, #RRGGBB and #RRGGBBAA.
-    if (/^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(trimmed)) return "color";
-
-    // node:net validates octet ranges and IPv6 properly, so `999.1.1.1` is correctly refused —
-    // something a dotted-quad regex would happily accept.
-    if (isIP(trimmed) !== 0) return "ip";
-
+    if (isUrl(trimmed)) return "url";
+    if (isHexColor(trimmed)) return "color";
+    if (isIpAddress(trimmed)) return "ip";
     if (isIsoDateTime(trimmed)) return "date";
-    if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed)) return "email";
+    if (isEmail(trimmed)) return "email";
 
     // Paths may contain spaces, so only the prefix is required — but a single line is, since a
     // multi-line blob starting with "/" is a document rather than a path.
@@ -648,7 +1000,7 @@ export function clipSearchText(clip: ClipEntry): string {
 }
 
 /** Fixed-width mask. Deliberately not the value's length, which would leak how long it is. */
-const MASK = "•".repeat(12);
+export const MASK = "•".repeat(12);
 
 /** Toggles whether a clip's value is masked in the picker. */
 export function toggleClipHidden(clips: readonly ClipEntry[], id: string): ClipEntry[] {
@@ -0,0 +1,7 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    // The actions use standard decorators, which the test transformer cannot lower yet. The
+    // legacy form is equivalent for `@action`, which the action tests replace with a no-op.
+    oxc: { decorator: { legacy: true } },
+});